@@ -1,3 +1,6 @@
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
 import { CacheService } from "../services/cache"
 import { PlaylistCriteria, GenerationResult } from "../types"
 
@@ -34,18 +37,18 @@ describe("CacheService", () => {
     tags: ["rock", "energetic"],
   }
 
-  test("should store and retrieve values", () => {
+  test("should store and retrieve values", async () => {
     const cacheKey = {
       type: "playlist" as const,
       criteria: mockCriteria,
     }
 
-    cacheService.set(cacheKey, mockResult)
-    const cachedResult = cacheService.get<GenerationResult>(cacheKey)
+    await cacheService.set(cacheKey, mockResult)
+    const cachedResult = await cacheService.get<GenerationResult>(cacheKey)
     expect(cachedResult).toEqual(mockResult)
   })
 
-  test("should handle arrays in different orders", () => {
+  test("should handle arrays in different orders", async () => {
     const key1 = {
       type: "playlist" as const,
       criteria: {
@@ -62,12 +65,12 @@ describe("CacheService", () => {
       },
     }
 
-    cacheService.set(key1, mockResult)
-    const cachedResult = cacheService.get<GenerationResult>(key2)
+    await cacheService.set(key1, mockResult)
+    const cachedResult = await cacheService.get<GenerationResult>(key2)
     expect(cachedResult).toEqual(mockResult)
   })
 
-  test("should handle object properties in different orders", () => {
+  test("should handle object properties in different orders", async () => {
     const key1 = {
       type: "playlist" as const,
       criteria: {
@@ -84,24 +87,24 @@ describe("CacheService", () => {
       },
     }
 
-    cacheService.set(key1, mockResult)
-    const cachedResult = cacheService.get<GenerationResult>(key2)
+    await cacheService.set(key1, mockResult)
+    const cachedResult = await cacheService.get<GenerationResult>(key2)
     expect(cachedResult).toEqual(mockResult)
   })
 
-  test("should handle cache invalidation", () => {
+  test("should handle cache invalidation", async () => {
     const cacheKey = {
       type: "playlist" as const,
       criteria: mockCriteria,
     }
 
-    cacheService.set(cacheKey, mockResult)
-    cacheService.invalidate(cacheKey)
-    const cachedResult = cacheService.get<GenerationResult>(cacheKey)
+    await cacheService.set(cacheKey, mockResult)
+    await cacheService.invalidate(cacheKey)
+    const cachedResult = await cacheService.get<GenerationResult>(cacheKey)
     expect(cachedResult).toBeUndefined()
   })
 
-  test("should track cache statistics", () => {
+  test("should track cache statistics", async () => {
     const key1 = {
       type: "playlist" as const,
       criteria: mockCriteria,
@@ -112,16 +115,16 @@ describe("CacheService", () => {
       criteria: { genres: ["pop"] },
     }
 
-    cacheService.set(key1, mockResult)
-    cacheService.get(key1) // Hit
-    cacheService.get(key2) // Miss
+    await cacheService.set(key1, mockResult)
+    await cacheService.get(key1) // Hit
+    await cacheService.get(key2) // Miss
 
-    const stats = cacheService.getStats()
+    const stats = await cacheService.getStats()
     expect(stats.hits).toBeGreaterThan(0)
     expect(stats.misses).toBeGreaterThan(0)
   })
 
-  test("should handle nested arrays and objects", () => {
+  test("should handle nested arrays and objects", async () => {
     const key1 = {
       type: "playlist" as const,
       criteria: {
@@ -138,8 +141,256 @@ describe("CacheService", () => {
       },
     }
 
-    cacheService.set(key1, mockResult)
-    const cachedResult = cacheService.get<GenerationResult>(key2)
+    await cacheService.set(key1, mockResult)
+    const cachedResult = await cacheService.get<GenerationResult>(key2)
     expect(cachedResult).toEqual(mockResult)
   })
+
+  test("isolates and clears namespaced entries", async () => {
+    const key = { type: "user_taste_analysis", criteria: { timeRange: "medium_term" } }
+    await cacheService.set({ ...key, namespace: "user:alice" }, "alice")
+    await cacheService.set({ ...key, namespace: "user:bob" }, "bob")
+
+    expect(await cacheService.get({ ...key, namespace: "user:alice" })).toBe("alice")
+    expect(await cacheService.get(key)).toBeUndefined()
+
+    await cacheService.set({ ...key, namespace: "user:alice:work" }, "alice work")
+    await cacheService.clearNamespace("user:alice")
+    expect(await cacheService.get({ ...key, namespace: "user:alice" })).toBeUndefined()
+    expect(await cacheService.get({ ...key, namespace: "user:bob" })).toBe("bob")
+    expect(await cacheService.get({ ...key, namespace: "user:alice:work" })).toBe(
+      "alice work"
+    )
+  })
+
+  describe("key schemas", () => {
+    test("ignores case and whitespace in declared fields", async () => {
+      await cacheService.set(
+        { type: "playlist", criteria: { genres: ["Rock ", "Indie"] } },
+        "a"
+      )
+
+      expect(
+        await cacheService.get({
+          type: "playlist",
+          criteria: { genres: ["indie", "rock", "rock"] },
+        })
+      ).toBe("a")
+      expect(
+        await cacheService.get({ type: "song_analysis", criteria: { title: "Song 2" } })
+      ).toBeUndefined()
+    })
+
+    test("keeps the order of arrays that are not sets", async () => {
+      const seeds = (songs: string[]) => ({ type: "mixed_playlist", criteria: { songs } })
+      await cacheService.set(seeds(["Song 2", "Everlong"]), "first")
+
+      expect(await cacheService.get(seeds(["Everlong", "Song 2"]))).toBeUndefined()
+      expect(await cacheService.get(seeds(["Song 2", "Everlong"]))).toBe("first")
+    })
+
+    test("drops ignored fields", async () => {
+      const schemaCache = new CacheService({
+        keySchemas: { trend: { ignored: ["requestId"] } },
+      })
+      await schemaCache.set(
+        { type: "trend", criteria: { genre: "rock", requestId: 1 } },
+        "t"
+      )
+
+      expect(
+        await schemaCache.get({
+          type: "trend",
+          criteria: { genre: "rock", requestId: 2 },
+        })
+      ).toBe("t")
+    })
+
+    test("invalidates entries when the key version changes", async () => {
+      const key = { type: "song_analysis", criteria: { title: "Song 2", artist: "Blur" } }
+      cacheService.setKeyVersions({ song_analysis: "prompt-v1" })
+      await cacheService.set(key, "old analysis")
+
+      cacheService.setKeyVersions({ song_analysis: "prompt-v2" })
+      expect(await cacheService.get(key)).toBeUndefined()
+    })
+  })
+
+  describe("policies and getOrCompute", () => {
+    let clock: number
+    let policyCache: CacheService
+
+    beforeEach(() => {
+      clock = 0
+      policyCache = new CacheService(
+        {
+          stdTTL: 60,
+          policies: {
+            trend: { ttl: 10, staleWhileRevalidate: 100 },
+            song_analysis: { ttl: 0, maxEntries: 2 },
+          },
+        },
+        undefined,
+        () => clock
+      )
+    })
+
+    test("applies the TTL of the key type", async () => {
+      await policyCache.set({ type: "trend", criteria: { genre: "rock" } }, "trend")
+      await policyCache.set({ type: "playlist", criteria: { genre: "rock" } }, "playlist")
+
+      clock = 30_000
+      expect(
+        await policyCache.get({ type: "trend", criteria: { genre: "rock" } })
+      ).toBeUndefined()
+      expect(
+        await policyCache.get({ type: "playlist", criteria: { genre: "rock" } })
+      ).toBe("playlist")
+    })
+
+    test("shares one computation between concurrent callers", async () => {
+      const compute = jest.fn(
+        () => new Promise<string>((resolve) => setTimeout(() => resolve("analysis"), 10))
+      )
+      const key = { type: "song_analysis", criteria: { title: "Song 2", artist: "Blur" } }
+
+      const results = await Promise.all([
+        policyCache.getOrCompute(key, compute),
+        policyCache.getOrCompute(key, compute),
+        policyCache.getOrCompute(key, compute),
+      ])
+
+      expect(results).toEqual(["analysis", "analysis", "analysis"])
+      expect(compute).toHaveBeenCalledTimes(1)
+      expect(await policyCache.getOrCompute(key, compute)).toBe("analysis")
+      expect(compute).toHaveBeenCalledTimes(1)
+    })
+
+    test("does not cache failed computations", async () => {
+      const key = { type: "trend", criteria: { genre: "jazz" } }
+      await expect(
+        policyCache.getOrCompute(key, () => Promise.reject(new Error("LLM down")))
+      ).rejects.toThrow("LLM down")
+
+      expect(await policyCache.getOrCompute(key, async () => "trend")).toBe("trend")
+    })
+
+    test("serves stale entries while revalidating", async () => {
+      const key = { type: "trend", criteria: { genre: "rock" } }
+      await policyCache.getOrCompute(key, async () => "old")
+
+      clock = 20_000 // périmé, mais dans la fenêtre de revalidation
+      const compute = jest.fn(async () => "new")
+      expect(await policyCache.getOrCompute(key, compute)).toBe("old")
+      expect(compute).toHaveBeenCalledTimes(1)
+
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(await policyCache.getOrCompute(key, compute)).toBe("new")
+      expect(compute).toHaveBeenCalledTimes(1)
+    })
+
+    test("evicts the oldest entries beyond maxEntries", async () => {
+      const key = (title: string) => ({ type: "song_analysis", criteria: { title } })
+      await policyCache.set(key("a"), 1)
+      await policyCache.set(key("b"), 2)
+      await policyCache.set(key("c"), 3)
+
+      expect(await policyCache.get(key("a"))).toBeUndefined()
+      expect(await policyCache.get(key("b"))).toBe(2)
+      expect(await policyCache.get(key("c"))).toBe(3)
+    })
+  })
+
+  describe("inspection and export", () => {
+    const analysis = (title: string, artist: string) => ({
+      type: "song_analysis",
+      criteria: { title, artist },
+    })
+
+    beforeEach(async () => {
+      await cacheService.set(analysis("Song 2", "Blur"), "song 2")
+      await cacheService.set(analysis("Parklife", "Blur"), "parklife")
+      await cacheService.set(analysis("Everlong", "Foo Fighters"), "everlong")
+      await cacheService.set({ type: "trend", criteria: { genre: "rock" } }, "trend")
+    })
+
+    test("lists entries by type with their original key", async () => {
+      const entries = await cacheService.listEntries("song_analysis")
+
+      expect(entries).toHaveLength(3)
+      expect(
+        entries
+          .map((entry) => "title" in entry.key.criteria && entry.key.criteria.title)
+          .sort()
+      ).toEqual(["Everlong", "Parklife", "Song 2"])
+      expect(entries[0]).toMatchObject({ fresh: true, age: expect.any(Number) })
+    })
+
+    test("inspects a single entry", async () => {
+      expect(await cacheService.inspect(analysis("Song 2", "Blur"))).toMatchObject({
+        key: analysis("Song 2", "Blur"),
+        value: "song 2",
+        fresh: true,
+      })
+    })
+
+    test("invalidates by type or predicate", async () => {
+      expect(
+        await cacheService.invalidateWhere(
+          (key) => "artist" in key.criteria && key.criteria.artist === "Blur"
+        )
+      ).toBe(2)
+      expect(await cacheService.get(analysis("Everlong", "Foo Fighters"))).toBe(
+        "everlong"
+      )
+
+      expect(await cacheService.invalidateWhere("trend")).toBe(1)
+      expect(await cacheService.listEntries()).toHaveLength(1)
+    })
+
+    test("exports entries and warms another instance", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "cache-export-"))
+      try {
+        const path = join(dir, "cache.json")
+        expect(await cacheService.exportTo(path)).toBe(4)
+
+        const fresh = new CacheService()
+        expect(await fresh.importFrom(path)).toBe(4)
+        expect(await fresh.get(analysis("Song 2", "Blur"))).toBe("song 2")
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("applies maxEntries to imported entries", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "cache-export-"))
+      try {
+        const path = join(dir, "cache.json")
+        await cacheService.exportTo(path)
+
+        const limited = new CacheService({
+          policies: { song_analysis: { ttl: 0, maxEntries: 2 } },
+        })
+        await limited.importFrom(path)
+        expect(await limited.listEntries("song_analysis")).toHaveLength(2)
+
+        await limited.set(analysis("Tender", "Blur"), "tender")
+        expect(await limited.listEntries("song_analysis")).toHaveLength(2)
+        expect(await limited.get(analysis("Tender", "Blur"))).toBe("tender")
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("reports hit ratios per type", async () => {
+      await cacheService.get(analysis("Song 2", "Blur"))
+      await cacheService.get(analysis("Unknown", "Nobody"))
+      await cacheService.get({ type: "trend", criteria: { genre: "rock" } })
+
+      const stats = await cacheService.getStats()
+      expect(stats.byType.song_analysis).toEqual({ hits: 1, misses: 1, hitRatio: 0.5 })
+      expect(stats.byType.trend.hitRatio).toBe(1)
+      expect(stats.keys).toBe(4)
+    })
+  })
 })
@@ -0,0 +1,201 @@
+import { mkdtempSync, rmSync } from "fs"
+import { AddressInfo, Server, Socket, createServer } from "net"
+import { tmpdir } from "os"
+import { join } from "path"
+import { FileCacheStore, RedisCacheStore } from "../services/cacheStores"
+import { CacheService } from "../services/cache"
+
+// Serveur TCP de test ; connections compte les connexions ouvertes par le client
+function startServer(
+  onConnection: (socket: Socket) => void
+): Promise<{ server: Server; port: number; connections: () => number }> {
+  let connections = 0
+  const server = createServer((socket) => {
+    connections++
+    onConnection(socket)
+  })
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        connections: () => connections,
+      })
+    )
+  )
+}
+
+// Serveur minimal compatible Redis (AUTH/GET/SET/DEL/SCAN) pour tester le protocole
+async function startRedisStandIn(password?: string) {
+  const data = new Map<string, string>()
+  const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+
+  const server = await startServer((socket) => {
+    let pending = ""
+    socket.on("data", (chunk) => {
+      pending += chunk.toString("utf8")
+      // Les commandes reçues sont des tableaux de bulk strings sans CRLF internes
+      for (;;) {
+        const lines = pending.split("\r\n")
+        const count = Number(lines[0].slice(1))
+        if (!lines[0].startsWith("*") || lines.length < count * 2 + 2) return
+        const args = Array.from({ length: count }, (_, i) => lines[i * 2 + 2])
+        pending = lines.slice(count * 2 + 1).join("\r\n")
+
+        const [command, ...rest] = args
+        switch (command.toUpperCase()) {
+          case "AUTH":
+            socket.write(
+              rest[0] === password ? "+OK\r\n" : "-WRONGPASS invalid password\r\n"
+            )
+            break
+          case "GET":
+            socket.write(data.has(rest[0]) ? bulk(data.get(rest[0])!) : "$-1\r\n")
+            break
+          case "SET":
+            data.set(rest[0], rest[1])
+            socket.write("+OK\r\n")
+            break
+          case "DEL":
+            rest.forEach((key) => data.delete(key))
+            socket.write(`:${rest.length}\r\n`)
+            break
+          case "SCAN": {
+            const prefix = rest[2].replace(/\*$/, "").replace(/\\(.)/g, "$1")
+            const keys = [...data.keys()].filter((key) => key.startsWith(prefix))
+            socket.write(
+              `*2\r\n${bulk("0")}*${keys.length}\r\n${keys.map(bulk).join("")}`
+            )
+            break
+          }
+          default:
+            socket.write(`-ERR unknown command ${command}\r\n`)
+        }
+      }
+    })
+  })
+
+  return { ...server, data }
+}
+
+describe("cache stores", () => {
+  describe("FileCacheStore", () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "cache-"))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it("keeps entries across instances", async () => {
+      const path = join(dir, "cache.json")
+      const first = new CacheService({ store: { file: path } })
+      await first.set(
+        { type: "song_analysis", criteria: { title: "Song 2" } },
+        { bpm: 130 }
+      )
+
+      // Nouvelle instance : simule un redémarrage
+      const second = new CacheService({ store: { file: path } })
+      expect(
+        await second.get({ type: "song_analysis", criteria: { title: "Song 2" } })
+      ).toEqual({
+        bpm: 130,
+      })
+    })
+
+    it("expires entries after their TTL", async () => {
+      let clock = 0
+      const store = new FileCacheStore(join(dir, "cache.json"), () => clock)
+      await store.set("key", "value", 60)
+
+      clock = 59_000
+      expect(await store.get("key")).toBe("value")
+      clock = 61_000
+      expect(await store.get("key")).toBeUndefined()
+      expect(await store.keys()).toEqual([])
+    })
+  })
+
+  describe("RedisCacheStore", () => {
+    let standIn: Awaited<ReturnType<typeof startRedisStandIn>>
+    let store: RedisCacheStore
+
+    beforeEach(async () => {
+      standIn = await startRedisStandIn()
+      store = new RedisCacheStore({ port: standIn.port, keyPrefix: "test:" })
+    })
+
+    afterEach(async () => {
+      store.close()
+      await new Promise((resolve) => standIn.server.close(resolve))
+    })
+
+    it("stores JSON values under the key prefix", async () => {
+      await store.set("a", { genres: ["rock"] }, 60)
+
+      expect(standIn.data.get("test:a")).toBe('{"genres":["rock"]}')
+      expect(await store.get("a")).toEqual({ genres: ["rock"] })
+      expect(await store.get("missing")).toBeUndefined()
+    })
+
+    it("lists, deletes and clears only its own keys", async () => {
+      standIn.data.set("other:x", "1")
+      await Promise.all([store.set("user:1:a", 1, 0), store.set("user:2:b", 2, 0)])
+
+      expect(await store.keys("user:1:")).toEqual(["user:1:a"])
+      await store.delete(["user:1:a"])
+      expect(await store.keys()).toEqual(["user:2:b"])
+
+      await store.clear()
+      expect([...standIn.data.keys()]).toEqual(["other:x"])
+    })
+
+    it("reconnects after a failed AUTH", async () => {
+      const secured = await startRedisStandIn("secret")
+      const wrong = new RedisCacheStore({ port: secured.port, password: "wrong" })
+
+      await expect(wrong.get("a")).rejects.toThrow("WRONGPASS")
+      await expect(wrong.get("a")).rejects.toThrow("WRONGPASS")
+      expect(secured.connections()).toBe(2)
+
+      wrong.close()
+      await new Promise((resolve) => secured.server.close(resolve))
+    })
+
+    it("resets the connection on an unreadable reply", async () => {
+      const broken = await startServer((socket) =>
+        socket.on("data", () => socket.write("?unknown\r\n"))
+      )
+      const client = new RedisCacheStore({ port: broken.port })
+
+      await expect(client.get("a")).rejects.toThrow("Unexpected RESP reply type")
+      await expect(client.get("a")).rejects.toThrow("Unexpected RESP reply type")
+      expect(broken.connections()).toBe(2)
+
+      client.close()
+      await new Promise((resolve) => broken.server.close(resolve))
+    })
+
+    it("times out commands of a server that does not answer", async () => {
+      const silent = await startServer((socket) => socket.resume())
+      const client = new RedisCacheStore({ port: silent.port, commandTimeoutMs: 50 })
+
+      await expect(client.get("a")).rejects.toThrow("Redis GET timed out after 50ms")
+      await expect(client.get("a")).rejects.toThrow("timed out")
+      expect(silent.connections()).toBe(2)
+
+      client.close()
+      await new Promise((resolve) => silent.server.close(resolve))
+    })
+
+    it("treats an unreachable server as an empty cache", async () => {
+      const offline = new CacheService({ store: { redis: { port: 1 } } })
+      await offline.set({ type: "t", criteria: {} }, "value")
+      expect(await offline.get({ type: "t", criteria: {} })).toBeUndefined()
+    })
+  })
+})
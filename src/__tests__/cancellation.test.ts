@@ -0,0 +1,191 @@
+import { PlaylistGenius } from "../index"
+import { CancelledError } from "../errors"
+import { SpotifyRequestScheduler } from "../services/spotifyScheduler"
+import { withCancellation } from "../utils/abort"
+import { ConcurrencyLimiter } from "../utils/concurrency"
+import { LLMCallOptions, LLMCompletionRequest, LogLevel } from "../types"
+
+const artist = (name: string, similarArtists: string[] = []) => ({
+  name,
+  genres: ["britpop"],
+  popularity: 80,
+  topTracks: ["Song"],
+  similarArtists,
+  era: ["1990s"],
+  description: `${name} description`,
+})
+
+const deferred = () => {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => (resolve = r))
+  return { promise, resolve }
+}
+
+describe("ConcurrencyLimiter", () => {
+  test("runs at most maxConcurrent tasks at once", async () => {
+    const limiter = new ConcurrencyLimiter(2)
+    let active = 0
+    let peak = 0
+    const task = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+    }
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)))
+    expect(peak).toBe(2)
+  })
+
+  test("drops a waiting task when its signal aborts", async () => {
+    const limiter = new ConcurrencyLimiter(1)
+    const gate = deferred()
+    const controller = new AbortController()
+    const second = jest.fn(async () => "second")
+
+    const first = limiter.run(() => gate.promise)
+    const waiting = limiter.run(second, controller.signal)
+    expect(limiter.pending).toBe(1)
+
+    controller.abort(new CancelledError("stop", "aborted"))
+    await expect(waiting).rejects.toThrow("stop")
+    expect(limiter.pending).toBe(0)
+
+    gate.resolve()
+    await first
+    expect(second).not.toHaveBeenCalled()
+    await expect(limiter.run(async () => "next")).resolves.toBe("next")
+  })
+})
+
+describe("withCancellation", () => {
+  test("rejects with a retryable CancelledError on timeout", async () => {
+    const never = new Promise<never>(() => undefined)
+
+    await expect(
+      withCancellation("slowOp", { timeoutMs: 10 }, () => never)
+    ).rejects.toEqual(
+      expect.objectContaining({
+        name: "CancelledError",
+        reason: "timeout",
+        operation: "slowOp",
+        retryable: true,
+      })
+    )
+  })
+
+  test("wraps the reason of an external signal", async () => {
+    const controller = new AbortController()
+    controller.abort("client disconnected")
+
+    const run = jest.fn(async () => "done")
+    await expect(
+      withCancellation("op", { signals: [controller.signal] }, run)
+    ).rejects.toMatchObject({ reason: "aborted", cause: "client disconnected" })
+    expect(run).not.toHaveBeenCalled()
+  })
+})
+
+describe("PlaylistGenius cancellation", () => {
+  const similar = ["Oasis", "Pulp", "Suede", "Elastica", "Supergrass", "Ash"]
+
+  const createGenius = (
+    respond: (name: string, options?: LLMCallOptions) => Promise<void>,
+    concurrency = 2
+  ) => {
+    const complete = jest.fn(
+      async (request: LLMCompletionRequest, options?: LLMCallOptions) => {
+        const prompt = request.messages[request.messages.length - 1].content
+        const name = prompt.match(/Analyze the artist "([^"]+)"/)?.[1] || "Unknown"
+        await respond(name, options)
+        return {
+          model: request.model,
+          content: JSON.stringify(artist(name, name === "Blur" ? similar : [])),
+        }
+      }
+    )
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+        concurrency: { llm: concurrency },
+      }
+    )
+    return { playlistGenius, complete }
+  }
+
+  test("caps concurrent LLM calls across the fan-out", async () => {
+    let active = 0
+    let peak = 0
+    const { playlistGenius } = createGenius(async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+    })
+
+    const { data } = await playlistGenius.findSimilarArtists("Blur")
+    expect(data).toHaveLength(similar.length)
+    expect(peak).toBe(2)
+  })
+
+  test("stops spending tokens once the caller aborts", async () => {
+    const controller = new AbortController()
+    const signals: (AbortSignal | undefined)[] = []
+    const { playlistGenius, complete } = createGenius(async (name, options) => {
+      signals.push(options?.signal)
+      if (name === "Blur") return
+      // la requête en cours reste bloquée jusqu'à l'annulation
+      await new Promise((_, reject) =>
+        options?.signal?.addEventListener("abort", () =>
+          reject(new Error("socket closed"))
+        )
+      )
+    })
+
+    const pending = playlistGenius.findSimilarArtists("Blur", {
+      signal: controller.signal,
+    })
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({
+      name: "CancelledError",
+      reason: "aborted",
+    })
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    // l'analyse de Blur et les deux premières analyses ; les autres ont quitté la file
+    expect(complete).toHaveBeenCalledTimes(3)
+    expect(signals.every((signal) => signal?.aborted)).toBe(true)
+  })
+
+  test("applies a per-call timeout", async () => {
+    const { playlistGenius } = createGenius(
+      (_, options) =>
+        new Promise((resolve) =>
+          options?.signal?.addEventListener("abort", () => resolve())
+        )
+    )
+
+    await expect(
+      playlistGenius.analyzeMusicTrend("jazz", { timeoutMs: 20 })
+    ).rejects.toMatchObject({ reason: "timeout", operation: "analyzeMusicTrend" })
+  })
+
+  test("does not start Spotify requests for a cancelled call", async () => {
+    const controller = new AbortController()
+    const scheduler = new SpotifyRequestScheduler({
+      limiter: new ConcurrencyLimiter(1),
+      signal: () => controller.signal,
+    })
+    const request = jest.fn(async () => "ok")
+
+    controller.abort()
+    await expect(
+      scheduler.schedule(request, { label: "searchTracks" })
+    ).rejects.toBeInstanceOf(CancelledError)
+    expect(request).not.toHaveBeenCalled()
+  })
+})
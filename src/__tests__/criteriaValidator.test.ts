@@ -0,0 +1,89 @@
+import { CriteriaValidator } from "../services/criteriaValidator"
+import { Song } from "../types"
+
+describe("CriteriaValidator", () => {
+  const validator = new CriteriaValidator()
+
+  const song = (overrides: Partial<Song> = {}): Song => ({
+    title: "Test Song",
+    artist: "Test Artist",
+    genre: ["rock"],
+    tempo: 120,
+    popularity: 50,
+    year: 2010,
+    duration: 200,
+    ...overrides,
+  })
+
+  test("accepts songs matching every criterion", () => {
+    const result = validator.validate([song()], {
+      excludedArtists: ["Someone Else"],
+      yearRange: { start: 2000, end: 2020 },
+      popularity: "medium",
+    })
+
+    expect(result.accepted).toHaveLength(1)
+    expect(result.rejected).toHaveLength(0)
+  })
+
+  test("rejects excluded artists with fuzzy name matching", () => {
+    const songs = [
+      song({ artist: "Beyoncé" }),
+      song({ artist: "The Beatles" }),
+      song({ artist: "Jay-Z feat. Beyonce" }),
+      song({ artist: "Radiohead" }),
+      song({ artist: "Coldplya" }),
+    ]
+
+    const result = validator.validate(songs, {
+      excludedArtists: ["beyonce", "Beatles", "Coldplay"],
+    })
+
+    expect(result.accepted.map((s) => s.artist)).toEqual(["Radiohead"])
+    expect(result.rejected[0].reasons[0].code).toBe("excluded_artist")
+  })
+
+  test("does not reject artists that only share a word", () => {
+    expect(validator.matchesArtist("Simon and Garfunkel", "Paul Simon")).toBe(false)
+  })
+
+  test("keeps names containing x or with whole", () => {
+    expect(validator.matchesArtist("Malcolm X", "Malcolm")).toBe(false)
+    expect(validator.matchesArtist("Dance with the Dead", "Dead")).toBe(false)
+    expect(validator.matchesArtist("Drake ft. Rihanna", "Rihanna")).toBe(true)
+  })
+
+  test("rejects songs outside the year range", () => {
+    const result = validator.validate(
+      [song({ year: 1999 }), song({ year: 2005 }), song({ year: 2021 })],
+      { yearRange: { start: 2000, end: 2020 } }
+    )
+
+    expect(result.accepted.map((s) => s.year)).toEqual([2005])
+    expect(result.rejected.map((r) => r.reasons[0].code)).toEqual([
+      "year_out_of_range",
+      "year_out_of_range",
+    ])
+  })
+
+  test("rejects songs outside the popularity bucket", () => {
+    const result = validator.validate(
+      [song({ popularity: 85 }), song({ popularity: 30 })],
+      { popularity: "high" }
+    )
+
+    expect(result.accepted.map((s) => s.popularity)).toEqual([85])
+    expect(result.rejected[0].reasons).toEqual([
+      expect.objectContaining({ code: "popularity_mismatch" }),
+    ])
+  })
+
+  test("reports every violated criterion", () => {
+    const reasons = validator.checkSong(song({ artist: "Nickelback", year: 1990 }), {
+      excludedArtists: ["Nickelback"],
+      yearRange: { start: 2000 },
+    })
+
+    expect(reasons.map((r) => r.code)).toEqual(["excluded_artist", "year_out_of_range"])
+  })
+})
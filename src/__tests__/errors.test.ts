@@ -0,0 +1,162 @@
+import { PlaylistGenius } from "../index"
+import {
+  AuthRequiredError,
+  PlaylistGeniusError,
+  ProviderError,
+  RateLimitedError,
+  toPlaylistGeniusError,
+} from "../errors"
+import { LLMCompletionRequest, LogLevel, PlaylistGeniusOptions } from "../types"
+
+const artist = (name: string, similarArtists: string[] = []) => ({
+  name,
+  genres: ["britpop"],
+  popularity: 80,
+  topTracks: ["Song"],
+  similarArtists,
+  era: ["1990s"],
+  description: `${name} description`,
+})
+
+describe("toPlaylistGeniusError", () => {
+  const context = { operation: "searchTracks", provider: "spotify" }
+
+  test("maps authentication failures to AuthRequiredError", () => {
+    const cause = { statusCode: 401, message: "The access token expired" }
+    const error = toPlaylistGeniusError(cause, context)
+
+    expect(error).toBeInstanceOf(AuthRequiredError)
+    expect(error).toMatchObject({ operation: "searchTracks", cause, retryable: false })
+  })
+
+  test("reads Retry-After on rate limits", () => {
+    const error = toPlaylistGeniusError(
+      { statusCode: 429, headers: { "retry-after": "3" } },
+      context
+    )
+
+    expect(error).toBeInstanceOf(RateLimitedError)
+    expect(error).toMatchObject({ retryAfterMs: 3000, retryable: true })
+  })
+
+  test("marks only server and network failures as retryable", () => {
+    const serverError = toPlaylistGeniusError({ statusCode: 502 }, context)
+    const notFound = toPlaylistGeniusError({ statusCode: 404 }, context)
+    const network = toPlaylistGeniusError(new Error("ECONNRESET"), context)
+
+    expect(serverError).toMatchObject({
+      provider: "spotify",
+      statusCode: 502,
+      retryable: true,
+    })
+    expect(notFound).toMatchObject({ statusCode: 404, retryable: false })
+    expect(network).toBeInstanceOf(ProviderError)
+    expect(network.message).toBe("spotify searchTracks failed: ECONNRESET")
+    expect(network.retryable).toBe(true)
+  })
+
+  test("keeps errors that are already typed", () => {
+    const error = new AuthRequiredError("Authentication required")
+    expect(toPlaylistGeniusError(error, context)).toBe(error)
+  })
+})
+
+describe("PlaylistGenius error modes", () => {
+  const createGenius = (failure: Error, options: PlaylistGeniusOptions = {}) => {
+    const complete = jest.fn(async (request: LLMCompletionRequest) => {
+      const prompt = request.messages[request.messages.length - 1].content
+      const name = prompt.match(/Analyze the artist "([^"]+)"/)?.[1] || "Unknown"
+      if (name === "Oasis") throw failure
+      return {
+        model: request.model,
+        content: JSON.stringify(artist(name, name === "Blur" ? ["Oasis", "Pulp"] : [])),
+      }
+    })
+    return new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+        ...options,
+      }
+    )
+  }
+  const outage = () => new ProviderError("mock unavailable", "mock", 503)
+
+  test("skips failed items by default", async () => {
+    const playlistGenius = createGenius(outage())
+
+    const { data } = await playlistGenius.findSimilarArtists("Blur")
+    expect(data.map((a) => a.name)).toEqual(["Pulp"])
+  })
+
+  test("fails fast when requested for a single call", async () => {
+    const playlistGenius = createGenius(outage())
+
+    await expect(
+      playlistGenius.findSimilarArtists("Blur", { errorMode: "fail-fast" })
+    ).rejects.toThrow(ProviderError)
+  })
+
+  test("applies the default error mode to nested calls", async () => {
+    const playlistGenius = createGenius(outage(), { errorMode: "fail-fast" })
+
+    await expect(playlistGenius.findSimilarArtists("Blur")).rejects.toMatchObject({
+      provider: "mock",
+      statusCode: 503,
+      retryable: true,
+    })
+    // l'option par appel reste prioritaire
+    await expect(
+      playlistGenius.findSimilarArtists("Blur", { errorMode: "degrade" })
+    ).resolves.toMatchObject({ data: [expect.objectContaining({ name: "Pulp" })] })
+  })
+
+  test("never degrades on authentication errors", async () => {
+    const playlistGenius = createGenius(new AuthRequiredError("Invalid API key"))
+
+    await expect(playlistGenius.findSimilarArtists("Blur")).rejects.toThrow(
+      AuthRequiredError
+    )
+  })
+
+  test("raises AuthRequiredError for Spotify analyses without tokens", async () => {
+    const playlistGenius = new PlaylistGenius(
+      "",
+      { clientId: "id", clientSecret: "secret", redirectUri: "http://cb" },
+      { level: LogLevel.ERROR },
+      { llm: { provider: { name: "mock", complete: jest.fn() } } }
+    )
+    const session = playlistGenius.getSpotifySession()
+
+    await expect(
+      playlistGenius.analyzeUserTaste(session, "medium_term", { errorMode: "fail-fast" })
+    ).rejects.toThrow(AuthRequiredError)
+  })
+
+  test("keeps the cause of untyped failures", async () => {
+    const cause = new Error("socket hang up")
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete: jest.fn().mockRejectedValue(cause) } },
+      }
+    )
+
+    const error = await playlistGenius
+      .generatePlaylistSuggestions({ genres: ["rock"] })
+      .then(
+        () => undefined,
+        (rejection) => rejection
+      )
+    expect(error).toBeInstanceOf(PlaylistGeniusError)
+    expect(error).toMatchObject({
+      message: "Failed to generate playlist suggestions",
+      operation: "generatePlaylistSuggestions",
+      cause,
+    })
+  })
+})
@@ -1,5 +1,7 @@
 import { LoggerService, ContextLogger } from "../services/logger"
-import { LogLevel } from "../types"
+import { Tracer } from "../services/tracing"
+import { PlaylistGenius } from "../index"
+import { Logger, LogLevel } from "../types"
 import winston from "winston"
 
 type WinstonLogLevel = "error" | "warn" | "info" | "http" | "debug"
@@ -149,6 +151,33 @@ describe("LoggerService", () => {
     })
   })
 
+  test("stamps the request id and span of the current trace", async () => {
+    const tracer = new Tracer()
+    const loggerService = new LoggerService({ level: LogLevel.DEBUG }, tracer)
+    const logger = loggerService.createContextLogger("TestContext")
+    const mockLogger = (winston.createLogger as jest.Mock).mock.results[0].value
+
+    await tracer.run("findTrendingInGenre", async () => {
+      logger.info("Inside span")
+      logger.error("Failed inside span", new Error("boom"))
+    })
+    logger.info("Outside span")
+
+    const [{ traceId }] = tracer.getSpans()
+    expect(mockLogger.info).toHaveBeenCalledWith("Inside span", {
+      service: "TestContext",
+      requestId: traceId,
+      span: "findTrendingInGenre",
+    })
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      "Failed inside span",
+      expect.objectContaining({ requestId: traceId, span: "findTrendingInGenre" })
+    )
+    expect(mockLogger.info).toHaveBeenLastCalledWith("Outside span", {
+      service: "TestContext",
+    })
+  })
+
   test("configures winston formats correctly", () => {
     new LoggerService({
       level: LogLevel.DEBUG,
@@ -170,4 +199,100 @@ describe("LoggerService", () => {
     expect(winston.transports.File).toHaveBeenCalled()
     expect(winston.transports.Console).toHaveBeenCalled()
   })
+
+  test("is silent when no transport is configured", () => {
+    new LoggerService({ level: LogLevel.INFO, consoleOutput: false })
+
+    expect(winston.createLogger).toHaveBeenCalledWith(
+      expect.objectContaining({ silent: true, transports: [] })
+    )
+  })
+
+  test("forwards redacted messages to an external logger", () => {
+    const external = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    }
+    const loggerService = new LoggerService(
+      { level: LogLevel.ERROR },
+      undefined,
+      external
+    )
+    const logger = loggerService.createContextLogger("TestContext")
+
+    logger.debug("Token set", { accessToken: "secret" })
+    logger.http("Request sent")
+    logger.error("Failed", new Error("boom"))
+
+    expect(winston.createLogger).not.toHaveBeenCalled()
+    expect(external.debug).toHaveBeenCalledWith("Token set", {
+      accessToken: "[REDACTED]",
+      service: "TestContext",
+    })
+    // sans méthode http, le message part en debug
+    expect(external.debug).toHaveBeenLastCalledWith("Request sent", {
+      service: "TestContext",
+    })
+    expect(external.error).toHaveBeenCalledWith("Failed", {
+      error: expect.objectContaining({ message: "boom", service: "TestContext" }),
+    })
+  })
+})
+
+describe("PlaylistGenius logging", () => {
+  const provider = {
+    name: "mock",
+    complete: jest.fn().mockRejectedValue(new Error("provider down")),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test("writes nothing by default", async () => {
+    const spies = (["log", "info", "warn", "error", "debug"] as const).map((method) =>
+      jest.spyOn(console, method).mockImplementation(() => undefined)
+    )
+
+    const playlistGenius = new PlaylistGenius("", undefined, undefined, {
+      llm: { provider },
+    })
+    await expect(playlistGenius.generatePlaylistSuggestions({})).rejects.toThrow()
+
+    expect(winston.createLogger).toHaveBeenCalledWith(
+      expect.objectContaining({ silent: true })
+    )
+    spies.forEach((spy) => {
+      expect(spy).not.toHaveBeenCalled()
+      spy.mockRestore()
+    })
+  })
+
+  test("routes internal messages through an injected logger", async () => {
+    const logger: Logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    }
+
+    const playlistGenius = new PlaylistGenius("", undefined, undefined, {
+      llm: { provider },
+      logger,
+    })
+    await expect(playlistGenius.generatePlaylistSuggestions({})).rejects.toThrow()
+
+    expect(logger.info).toHaveBeenCalledWith(
+      "Initializing PlaylistGenius",
+      expect.objectContaining({ service: "PlaylistGenius" })
+    )
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error generating playlist suggestions",
+      expect.objectContaining({
+        error: expect.objectContaining({ service: "OpenAIService" }),
+      })
+    )
+  })
 })
@@ -0,0 +1,157 @@
+import { OpenAIService } from "../services/openai"
+import { LLMProvider, Song } from "../types"
+
+const mockCreate = jest.fn()
+
+const mockProvider: LLMProvider = {
+  name: "mock",
+  complete: mockCreate,
+}
+
+const song = (title: string, duration: number = 200): Song => ({
+  title,
+  artist: "Test Artist",
+  genre: ["rock"],
+  tempo: 120,
+  popularity: 60,
+  year: 2010,
+  duration,
+})
+
+const completion = (songs: Song[]) => ({
+  content: JSON.stringify({ songs, explanation: "Test", tags: ["rock"] }),
+  model: "test-model",
+})
+
+describe("OpenAIService", () => {
+  let openaiService: OpenAIService
+
+  beforeEach(() => {
+    mockCreate.mockReset()
+    openaiService = new OpenAIService(mockProvider, {
+      models: { playlist: "cheap-model", analysis: "strong-model" },
+    })
+  })
+
+  describe("playlist length", () => {
+    test("requests the configured song count", async () => {
+      mockCreate.mockResolvedValueOnce(
+        completion([song("A"), song("B"), song("C"), song("D"), song("E"), song("F")])
+      )
+
+      const result = await openaiService.getPlaylistSuggestions({ songCount: 4 })
+
+      expect(result.songs.map((s) => s.title)).toEqual(["A", "B", "C", "D"])
+      expect(mockCreate.mock.calls[0][0].messages[1].content).toContain(
+        "playlist with 4 songs"
+      )
+    })
+
+    test("requests more songs in extra rounds and deduplicates them", async () => {
+      mockCreate
+        .mockResolvedValueOnce(completion([song("A"), song("B")]))
+        .mockResolvedValueOnce(completion([song("a "), song("C"), song("D")]))
+
+      const result = await openaiService.getPlaylistSuggestions({ songCount: 4 })
+
+      expect(result.songs.map((s) => s.title)).toEqual(["A", "B", "C", "D"])
+      expect(mockCreate).toHaveBeenCalledTimes(2)
+      const secondPrompt = mockCreate.mock.calls[1][0].messages[1].content
+      expect(secondPrompt).toContain("playlist with 2 songs")
+      expect(secondPrompt).toContain('- "A" by Test Artist')
+    })
+
+    test("trims the playlist to the requested duration", async () => {
+      mockCreate.mockResolvedValueOnce(
+        completion([song("A", 300), song("B", 300), song("C", 300), song("D", 300)])
+      )
+
+      const result = await openaiService.getPlaylistSuggestions({
+        duration: 10,
+        durationTolerance: 1,
+      })
+
+      expect(result.songs.map((s) => s.title)).toEqual(["A", "B"])
+      expect(result.totalDuration).toBe(600)
+    })
+
+    test("pads the playlist until the duration is within tolerance", async () => {
+      mockCreate
+        .mockResolvedValueOnce(completion([song("A", 240)]))
+        .mockResolvedValueOnce(completion([song("B", 240), song("C", 240)]))
+
+      const result = await openaiService.getPlaylistSuggestions({
+        duration: 12,
+        durationTolerance: 1,
+      })
+
+      expect(result.songs).toHaveLength(3)
+      expect(result.totalDuration).toBe(720)
+      expect(mockCreate).toHaveBeenCalledTimes(2)
+    })
+
+    test("stops requesting when the model returns no songs", async () => {
+      mockCreate.mockResolvedValue(completion([]))
+
+      const result = await openaiService.getPlaylistSuggestions({ songCount: 3 })
+
+      expect(result.songs).toEqual([])
+      expect(mockCreate).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("criteria validation", () => {
+    test("replaces songs violating the criteria and reports them", async () => {
+      mockCreate
+        .mockResolvedValueOnce(
+          completion([song("A"), { ...song("B"), artist: "Excluded Band" }, song("C")])
+        )
+        .mockResolvedValueOnce(completion([song("D")]))
+
+      const result = await openaiService.getPlaylistSuggestions({
+        songCount: 3,
+        excludedArtists: ["Excluded Band"],
+      })
+
+      expect(result.songs.map((s) => s.title)).toEqual(["A", "C", "D"])
+      expect(result.rejected).toEqual([
+        {
+          song: expect.objectContaining({ title: "B" }),
+          reasons: [expect.objectContaining({ code: "excluded_artist" })],
+        },
+      ])
+      const secondPrompt = mockCreate.mock.calls[1][0].messages[1].content
+      expect(secondPrompt).toContain("playlist with 1 songs")
+      expect(secondPrompt).toContain('- "B" by Excluded Band')
+    })
+  })
+
+  describe("model selection", () => {
+    test("uses the playlist model for suggestions and the analysis model for analyses", async () => {
+      mockCreate.mockResolvedValueOnce(completion([song("A")]))
+      await openaiService.getPlaylistSuggestions({ songCount: 1 })
+
+      mockCreate.mockResolvedValueOnce({ content: "{}", model: "strong-model" })
+      await openaiService.analyzeSongDetailed("A", "B").catch(() => undefined)
+
+      expect(mockCreate.mock.calls[0][0]).toMatchObject({
+        model: "cheap-model",
+        json: true,
+      })
+      expect(mockCreate.mock.calls[1][0]).toMatchObject({ model: "strong-model" })
+    })
+
+    test("versions playlist cache keys by model", () => {
+      const other = new OpenAIService(mockProvider, {
+        models: { playlist: "other-model" },
+      })
+
+      expect(openaiService.cacheVersions().playlist).toBe(
+        openaiService.cacheVersions().playlist
+      )
+      expect(other.cacheVersions().playlist).not.toBe(
+        openaiService.cacheVersions().playlist
+      )
+    })
+  })
+})
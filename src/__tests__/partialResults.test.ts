@@ -0,0 +1,173 @@
+import { PlaylistGenius } from "../index"
+import { InsufficientResultsError, ProviderError } from "../errors"
+import { LLMCompletionRequest, LogLevel } from "../types"
+
+const artist = (name: string, similarArtists: string[] = []) => ({
+  name,
+  genres: ["britpop"],
+  popularity: 80,
+  topTracks: ["Song"],
+  similarArtists,
+  era: ["1990s"],
+  description: `${name} description`,
+})
+
+const songAnalysis = (title: string, similarSongs: string[] = []) => ({
+  title,
+  artist: "Blur",
+  features: {
+    genre: ["britpop"],
+    mood: ["happy"],
+    tempo: 120,
+    energy: 0.8,
+    danceability: 0.6,
+    valence: 0.7,
+    acousticness: 0.1,
+    instrumentalness: 0,
+    popularity: 70,
+    year: 1994,
+    key: "E",
+    timeSignature: "4/4",
+  },
+  themes: [],
+  similarSongs,
+})
+
+describe("PlaylistGenius partial results", () => {
+  const createGenius = (failing: string[]) => {
+    const complete = jest.fn(async (request: LLMCompletionRequest) => {
+      const prompt = request.messages[request.messages.length - 1].content
+      const songTitle = prompt.match(/Analyze the song "([^"]+)"/)?.[1]
+      if (songTitle) {
+        if (failing.includes(songTitle)) throw new ProviderError("timeout", "mock", 504)
+        const similar =
+          songTitle === "Song 2"
+            ? ["Parklife by Blur", "Beetlebum", "Tender by Blur"]
+            : []
+        return {
+          model: request.model,
+          content: JSON.stringify(songAnalysis(songTitle, similar)),
+        }
+      }
+      const name = prompt.match(/Analyze the artist "([^"]+)"/)?.[1] || "Unknown"
+      if (failing.includes(name)) throw new ProviderError("mock unavailable", "mock", 503)
+      const similar = name === "Blur" ? ["Oasis", "Pulp", "Suede", "Elastica"] : []
+      return { model: request.model, content: JSON.stringify(artist(name, similar)) }
+    })
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+      }
+    )
+    return { playlistGenius, complete }
+  }
+
+  test("reports each failed sub-analysis alongside the data", async () => {
+    const { playlistGenius } = createGenius(["Oasis"])
+
+    const result = await playlistGenius.findSimilarArtists("Blur")
+
+    expect(result.data.map((a) => a.name)).toEqual(["Pulp", "Suede", "Elastica"])
+    expect(result.failures).toEqual([
+      {
+        input: "Oasis",
+        errorType: "ProviderError",
+        message: "mock unavailable",
+        retryable: true,
+      },
+    ])
+    expect(result.warnings).toEqual(["1 of 4 sub-analyses failed"])
+  })
+
+  test("fails the whole call below the minimum success ratio", async () => {
+    const { playlistGenius } = createGenius(["Oasis", "Suede"])
+
+    const { failures } = await playlistGenius.findSimilarArtists("Blur", {
+      minSuccess: 0.5,
+    })
+    expect(failures).toHaveLength(2)
+    await expect(
+      playlistGenius.findSimilarArtists("Blur", { minSuccess: 0.75 })
+    ).rejects.toMatchObject({
+      name: "InsufficientResultsError",
+      succeeded: 2,
+      attempted: 4,
+      retryable: true,
+    })
+  })
+
+  test("does not cache partial results", async () => {
+    const { playlistGenius, complete } = createGenius(["Oasis"])
+
+    await playlistGenius.findSimilarArtists("Blur")
+    await playlistGenius.findSimilarArtists("Blur")
+    expect(complete).toHaveBeenCalledTimes(10)
+
+    const { playlistGenius: healthy, complete: healthyComplete } = createGenius([])
+    await healthy.findSimilarArtists("Blur")
+    const cached = await healthy.findSimilarArtists("Blur")
+    expect(healthyComplete).toHaveBeenCalledTimes(5)
+    expect(cached).toEqual({ data: expect.any(Array), warnings: [], failures: [] })
+  })
+
+  test("shares failures with concurrent callers and checks each threshold", async () => {
+    const { playlistGenius, complete } = createGenius(["Oasis"])
+
+    const [first, second, strict] = await Promise.allSettled([
+      playlistGenius.findSimilarArtists("Blur"),
+      playlistGenius.findSimilarArtists("Blur"),
+      playlistGenius.findSimilarArtists("Blur", { minSuccess: 1 }),
+    ])
+
+    expect(complete).toHaveBeenCalledTimes(5)
+    for (const result of [first, second]) {
+      expect(result).toMatchObject({
+        status: "fulfilled",
+        value: { failures: [expect.objectContaining({ input: "Oasis" })] },
+      })
+    }
+    expect(strict).toMatchObject({
+      status: "rejected",
+      reason: expect.any(InsufficientResultsError),
+    })
+  })
+
+  test("separates malformed suggestions from failures", async () => {
+    const { playlistGenius } = createGenius(["Tender"])
+
+    const result = await playlistGenius.findSimilarSongs({
+      title: "Song 2",
+      artist: "Blur",
+    })
+
+    expect(result.data.map((song) => song.title)).toEqual(["Parklife"])
+    expect(result.failures.map((failure) => failure.input)).toEqual(["Tender by Blur"])
+    expect(result.warnings).toEqual([
+      "Invalid song format: Beetlebum",
+      "1 of 3 sub-analyses failed",
+    ])
+  })
+
+  test("reports a failed seed song as the only failure", async () => {
+    const { playlistGenius } = createGenius(["Song 2"])
+
+    const result = await playlistGenius.findSimilarSongs({
+      title: "Song 2",
+      artist: "Blur",
+    })
+    expect(result.data).toEqual([])
+    expect(result.failures).toEqual([
+      expect.objectContaining({ input: "Song 2 by Blur" }),
+    ])
+
+    await expect(
+      playlistGenius.findSimilarSongs(
+        { title: "Song 2", artist: "Blur" },
+        { minSuccess: 1 }
+      )
+    ).rejects.toBeInstanceOf(InsufficientResultsError)
+  })
+})
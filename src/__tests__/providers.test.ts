@@ -0,0 +1,122 @@
+import { AnthropicProvider, FixtureProvider, createLLMProvider } from "../providers"
+import { OpenAIProvider } from "../providers/openai"
+import { ProviderError } from "../errors"
+
+describe("LLM providers", () => {
+  describe("FixtureProvider", () => {
+    const provider = new FixtureProvider([
+      { match: /Analyze the artist "Radiohead"/, response: { name: "Radiohead" } },
+      { match: "playlist", response: "raw text" },
+    ])
+
+    test("returns the first matching fixture", async () => {
+      const result = await provider.complete({
+        model: "fixture",
+        messages: [{ role: "user", content: 'Analyze the artist "Radiohead"' }],
+      })
+
+      expect(result.content).toBe(JSON.stringify({ name: "Radiohead" }))
+    })
+
+    test("returns string fixtures as is", async () => {
+      const result = await provider.complete({
+        model: "fixture",
+        messages: [{ role: "user", content: "Generate a playlist" }],
+      })
+
+      expect(result.content).toBe("raw text")
+    })
+
+    test("fails when no fixture matches", async () => {
+      await expect(
+        provider.complete({
+          model: "fixture",
+          messages: [{ role: "user", content: "Something else" }],
+        })
+      ).rejects.toThrow("No fixture matches")
+    })
+  })
+
+  describe("AnthropicProvider", () => {
+    const fetchMock = jest.fn()
+
+    beforeEach(() => {
+      fetchMock.mockReset()
+      global.fetch = fetchMock as unknown as typeof fetch
+    })
+
+    test("maps chat messages to the Messages API", async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          model: "claude-test",
+          content: [{ type: "text", text: '```json\n{"ok":true}\n```' }],
+          usage: { input_tokens: 12, output_tokens: 5 },
+        }),
+      })
+
+      const provider = new AnthropicProvider({ apiKey: "test-key" })
+      const result = await provider.complete({
+        model: "claude-test",
+        json: true,
+        messages: [
+          { role: "system", content: "You are a music expert." },
+          { role: "user", content: "Hello" },
+        ],
+      })
+
+      const [url, init] = fetchMock.mock.calls[0]
+      const body = JSON.parse(init.body)
+      expect(url).toBe("https://api.anthropic.com/v1/messages")
+      expect(init.headers["x-api-key"]).toBe("test-key")
+      expect(body.system).toContain("You are a music expert.")
+      expect(body.messages).toEqual([{ role: "user", content: "Hello" }])
+      expect(result).toEqual({
+        content: '{"ok":true}',
+        model: "claude-test",
+        usage: { promptTokens: 12, completionTokens: 5 },
+      })
+    })
+
+    test("throws on API errors", async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 401, text: async () => "denied" })
+
+      const provider = new AnthropicProvider({ apiKey: "bad-key" })
+      await expect(
+        provider.complete({ model: "claude-test", messages: [] })
+      ).rejects.toThrow("401")
+    })
+
+    test("types network failures and unreadable responses", async () => {
+      const provider = new AnthropicProvider({ apiKey: "test-key" })
+      const request = { model: "claude-test", messages: [] }
+
+      fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"))
+      await expect(provider.complete(request)).rejects.toMatchObject({
+        name: "ProviderError",
+        provider: "anthropic",
+        retryable: true,
+        message: "anthropic complete failed: fetch failed",
+      })
+
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => JSON.parse("<html>"),
+      })
+      await expect(provider.complete(request)).rejects.toBeInstanceOf(ProviderError)
+    })
+  })
+
+  test("creates providers from configuration", () => {
+    expect(createLLMProvider({ type: "openai", apiKey: "key" })).toBeInstanceOf(
+      OpenAIProvider
+    )
+    expect(
+      createLLMProvider({
+        type: "openai-compatible",
+        baseURL: "http://localhost:11434/v1",
+      }).name
+    ).toBe("openai-compatible")
+    expect(createLLMProvider({ type: "anthropic", apiKey: "key" }).name).toBe("anthropic")
+  })
+})
@@ -0,0 +1,164 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { LoggerService } from "../services/logger"
+import { Redactor } from "../services/redaction"
+import { LogLevel } from "../types"
+
+// Le transport fichier écrit de façon asynchrone
+const readLines = async (file: string, count: number): Promise<string> => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const content = await fs.readFile(file, "utf8").catch(() => "")
+    if (content.trim().split("\n").filter(Boolean).length >= count) return content
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  throw new Error(`${file} has fewer than ${count} lines`)
+}
+
+const ACCESS_TOKEN = "BQDx9aZ3kLm0_secretAccessToken-123"
+const REFRESH_TOKEN = "AQBr7refreshTokenValue456"
+
+describe("Redactor", () => {
+  const redactor = new Redactor()
+
+  test("masks secret fields at any depth", () => {
+    expect(
+      redactor.redact({
+        tokens: {
+          accessToken: ACCESS_TOKEN,
+          refresh_token: REFRESH_TOKEN,
+          expiresIn: 3600,
+        },
+        request: { headers: { Authorization: `Bearer ${ACCESS_TOKEN}`, Accept: "json" } },
+        clientSecret: "shh",
+        clientId: "abc",
+      })
+    ).toEqual({
+      tokens: { accessToken: "[REDACTED]", refresh_token: "[REDACTED]", expiresIn: 3600 },
+      request: { headers: { Authorization: "[REDACTED]", Accept: "json" } },
+      clientSecret: "[REDACTED]",
+      clientId: "[REDACTED]",
+    })
+  })
+
+  test("keeps error codes but masks OAuth authorization codes", () => {
+    expect(
+      redactor.redact({
+        error: { code: "ECONNRESET" },
+        body: { error: "invalid_grant" },
+        authorizationCode: "AQD-code",
+        url: "http://cb?code=AQD-code&state=s1",
+      })
+    ).toEqual({
+      error: { code: "ECONNRESET" },
+      body: { error: "invalid_grant" },
+      authorizationCode: "[REDACTED]",
+      url: "http://cb?code=[REDACTED]&state=s1",
+    })
+  })
+
+  test("keeps usage counters that merely mention tokens", () => {
+    expect(redactor.redact({ promptTokens: 12, completionTokens: 3 })).toEqual({
+      promptTokens: 12,
+      completionTokens: 3,
+    })
+  })
+
+  test("masks bearer tokens, token parameters and emails inside strings", () => {
+    expect(
+      redactor.redactText(
+        `Bearer ${ACCESS_TOKEN} failed for jane.doe@example.com ` +
+          `(grant_type=refresh_token&refresh_token=${REFRESH_TOKEN}&client_id=x)`
+      )
+    ).toBe(
+      "Bearer [REDACTED] failed for [REDACTED] " +
+        "(grant_type=refresh_token&refresh_token=[REDACTED]&client_id=x)"
+    )
+  })
+
+  test("replaces user ids with a stable pseudonym", () => {
+    const first = redactor.redact({ userId: "alice" })
+    expect(first.userId).toMatch(/^hash:[0-9a-f]{12}$/)
+    expect(redactor.redact({ userId: "alice" })).toEqual(first)
+    expect(redactor.redact({ userId: "bob" })).not.toEqual(first)
+  })
+
+  test("walks error objects and their own properties", () => {
+    const error = Object.assign(new Error("Request failed"), {
+      statusCode: 401,
+      headers: { authorization: `Bearer ${ACCESS_TOKEN}` },
+    })
+
+    const redacted = redactor.redact({ error }) as any
+    expect(redacted.error).toEqual(
+      expect.objectContaining({
+        name: "Error",
+        message: "Request failed",
+        statusCode: 401,
+        headers: { authorization: "[REDACTED]" },
+      })
+    )
+  })
+
+  test("handles cycles and shared references", () => {
+    const shared = { value: 1 }
+    const meta: any = { a: shared, b: shared }
+    meta.self = meta
+
+    expect(redactor.redact(meta)).toEqual({
+      a: { value: 1 },
+      b: { value: 1 },
+      self: "[Circular]",
+    })
+  })
+
+  test("applies custom rules, with or without the defaults", () => {
+    const custom = new Redactor({
+      useDefaults: false,
+      rules: [{ key: "playlistName", replacement: "***" }, { pattern: /\d{4}-\d{4}/g }],
+    })
+
+    expect(
+      custom.redact({ playlistName: "Mine", note: "card 1234-5678", accessToken: "x" })
+    ).toEqual({ playlistName: "***", note: "card [REDACTED]", accessToken: "x" })
+  })
+})
+
+describe("LoggerService redaction", () => {
+  test("never writes tokens to the file transports", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "logs-"))
+    const filename = path.join(dir, "app.log")
+    const logger = new LoggerService({
+      level: LogLevel.DEBUG,
+      filename,
+      consoleOutput: false,
+    })
+    const context = logger.createContextLogger("SpotifyService")
+
+    context.debug("Tokens set successfully", {
+      accessToken: ACCESS_TOKEN,
+      refreshToken: REFRESH_TOKEN,
+      userId: "alice",
+    })
+    context.error("Error refreshing token", {
+      statusCode: 400,
+      headers: { Authorization: `Bearer ${ACCESS_TOKEN}` },
+      body: `refresh_token=${REFRESH_TOKEN}`,
+    })
+    context.error(
+      `Request with Bearer ${ACCESS_TOKEN} failed`,
+      new Error(`Invalid token for jane.doe@example.com`),
+      { email: "jane.doe@example.com" }
+    )
+
+    const written = await readLines(filename, 3)
+    const errors = await readLines(path.join(dir, "app.error.log"), 2)
+    for (const content of [written, errors]) {
+      expect(content).not.toContain(ACCESS_TOKEN)
+      expect(content).not.toContain("jane.doe@example.com")
+      expect(content).not.toContain('"alice"')
+    }
+    expect(written).not.toContain(`refresh_token=${REFRESH_TOKEN}`)
+    expect(written).toContain("[REDACTED]")
+  })
+})
@@ -0,0 +1,162 @@
+import { PlaylistGenius } from "../index"
+import { ProviderError } from "../errors"
+import { GenerationResult, LLMCompletionRequest, LogLevel, Song } from "../types"
+
+const song = (title: string, artist = "Blur", year = 1995): Song => ({
+  title,
+  artist,
+  genre: ["britpop"],
+  tempo: 120,
+  popularity: 70,
+  year,
+  duration: 200,
+})
+
+const initial: GenerationResult = {
+  songs: [song("Parklife"), song("Wonderwall", "Oasis"), song("Common People", "Pulp")],
+  explanation: "Britpop classics",
+  tags: ["90s"],
+}
+
+describe("RefinementSession", () => {
+  const createGenius = (replies: object[]) => {
+    const complete = jest.fn(async (request: LLMCompletionRequest) => {
+      const reply = replies.shift()
+      if (!reply) throw new ProviderError("mock unavailable", "mock", 503)
+      return { model: request.model, content: JSON.stringify(reply) }
+    })
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+      }
+    )
+    return { playlistGenius, complete }
+  }
+
+  test("keeps unchanged songs and applies the edit", async () => {
+    const { playlistGenius, complete } = createGenius([
+      {
+        songs: [{ keep: 1 }, song("Disco 2000", "Pulp"), { keep: 3 }],
+        explanation: "Swapped Wonderwall for a Pulp song",
+      },
+    ])
+    const session = await playlistGenius.startRefinement({ genres: ["britpop"] }, initial)
+
+    const result = await session.refine("swap the second song")
+
+    expect(result.songs.map((s) => s.title)).toEqual([
+      "Parklife",
+      "Disco 2000",
+      "Common People",
+    ])
+    expect(result.songs[0]).toBe(initial.songs[0])
+    expect(result).toMatchObject({ tags: ["90s"], totalDuration: 600 })
+    const prompt = complete.mock.calls[0][0].messages.slice(-1)[0].content
+    expect(prompt).toContain('2. "Wonderwall" by Oasis')
+    expect(prompt).toContain("Requested change: swap the second song")
+  })
+
+  test("revalidates only the new songs against the criteria", async () => {
+    const { playlistGenius } = createGenius([
+      {
+        songs: [
+          { keep: 1 },
+          { keep: 9 },
+          song("Live Forever", "Oasis"),
+          song("Parklife"),
+        ],
+        explanation: "More Oasis",
+      },
+    ])
+    const session = await playlistGenius.startRefinement(
+      { genres: ["britpop"], excludedArtists: ["Oasis"] },
+      initial
+    )
+
+    const result = await session.refine("more Oasis")
+
+    expect(result.songs.map((s) => s.title)).toEqual(["Parklife"])
+    expect(result.rejected).toEqual([
+      expect.objectContaining({ song: song("Live Forever", "Oasis") }),
+    ])
+  })
+
+  test("moves between versions with undo and redo", async () => {
+    const { playlistGenius, complete } = createGenius([
+      { songs: [{ keep: 1 }, { keep: 2 }], explanation: "Dropped Pulp" },
+      { songs: [{ keep: 1 }], explanation: "Only Blur" },
+      { songs: [{ keep: 2 }, { keep: 1 }], explanation: "Reversed" },
+    ])
+    const session = await playlistGenius.startRefinement({ genres: ["britpop"] }, initial)
+
+    await session.refine("drop Pulp")
+    await session.refine("only Blur")
+    expect(session.current.songs).toHaveLength(1)
+
+    expect(session.undo()?.explanation).toBe("Dropped Pulp")
+    expect(session.redo()?.explanation).toBe("Only Blur")
+    session.undo()
+    session.undo()
+    expect(session.undo()).toBeUndefined()
+    expect(session.current).toBe(initial)
+
+    session.redo()
+    await session.refine("reverse the order")
+    expect(session.canRedo).toBe(false)
+    expect(session.versions.map((v) => v.instruction)).toEqual([
+      undefined,
+      "drop Pulp",
+      "reverse the order",
+    ])
+    // l'historique envoyé suit la branche courante
+    expect(complete.mock.calls[2][0].messages.slice(1, -1)).toEqual([
+      { role: "user", content: "drop Pulp" },
+      { role: "assistant", content: "Dropped Pulp" },
+    ])
+  })
+
+  test("builds on the requested version when undo happens during a refinement", async () => {
+    const { playlistGenius, complete } = createGenius([
+      { songs: [{ keep: 1 }, { keep: 2 }], explanation: "Dropped Pulp" },
+      { songs: [{ keep: 1 }], explanation: "Only Blur" },
+    ])
+    const session = await playlistGenius.startRefinement({ genres: ["britpop"] }, initial)
+    await session.refine("drop Pulp")
+
+    let release: () => void = () => undefined
+    const gate = new Promise<void>((resolve) => (release = resolve))
+    const respond = complete.getMockImplementation()!
+    complete.mockImplementationOnce(async (request) => {
+      await gate
+      return respond(request)
+    })
+
+    const pending = session.refine("only Blur")
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(session.undo()).toBe(initial)
+    expect(session.redo()?.explanation).toBe("Dropped Pulp")
+    session.undo()
+    release()
+    await pending
+
+    expect(session.versions.map((v) => v.result.explanation)).toEqual([
+      "Britpop classics",
+      "Dropped Pulp",
+      "Only Blur",
+    ])
+    expect(session.currentVersion).toBe(2)
+    expect(session.current.songs).toHaveLength(1)
+  })
+
+  test("stays on the current version when a refinement fails", async () => {
+    const { playlistGenius } = createGenius([])
+    const session = await playlistGenius.startRefinement({ genres: ["britpop"] }, initial)
+
+    await expect(session.refine("more 90s")).rejects.toBeInstanceOf(ProviderError)
+    expect(session.current).toBe(initial)
+    expect(session.versions).toHaveLength(1)
+  })
+})
@@ -0,0 +1,84 @@
+import path from "path"
+import { PlaylistGenius } from "../index"
+import { UnrecordedCallError } from "../errors"
+import { LogLevel } from "../types"
+
+// Rejoue src/__tests__/fixtures/playlist-genius.json, sans aucun accès réseau
+describe("PlaylistGenius (replay)", () => {
+  let playlistGenius: PlaylistGenius
+
+  beforeEach(() => {
+    playlistGenius = new PlaylistGenius(
+      "",
+      {
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+        redirectUri: "http://localhost:3000/callback",
+      },
+      { level: LogLevel.ERROR },
+      {
+        fixtures: {
+          mode: "replay",
+          path: path.join(__dirname, "fixtures", "playlist-genius.json"),
+        },
+      }
+    )
+    playlistGenius.setSpotifyTokens(playlistGenius.getSpotifySession(), {
+      accessToken: "replay-access-token",
+      refreshToken: "replay-refresh-token",
+      expiresIn: 3600,
+    })
+  })
+
+  test("generates an enhanced playlist end-to-end", async () => {
+    const result = await playlistGenius.generateEnhancedPlaylist({
+      genres: ["rock"],
+      mood: "energetic",
+      tempo: "fast",
+    })
+
+    expect(result.suggestions.songs.map((song) => song.title)).toEqual([
+      "Everlong",
+      "Mr. Brightside",
+      "Seven Nation Army",
+      "Song 2",
+      "Killing In The Name",
+    ])
+    expect(result.spotifyTracks?.map((track) => track.id)).toEqual([
+      "t1",
+      "t2",
+      "t3",
+      "t4",
+      "r1",
+    ])
+  })
+
+  test("analyzes the user taste end-to-end", async () => {
+    const result = await playlistGenius.analyzeUserTaste(
+      playlistGenius.getSpotifySession(),
+      "medium_term"
+    )
+
+    expect(result.topTracks).toHaveLength(3)
+    expect(result.analysis.preferredGenres[0]).toBe("alternative rock")
+    expect(result.analysis.tempoDistribution.fast).toBe(1)
+    expect(result.analysis.moodProfile.energetic).toBe(1)
+  })
+
+  test("finds trending content end-to-end", async () => {
+    const { data: result, failures } = await playlistGenius.findTrendingInGenre("rock")
+
+    expect(failures).toEqual([])
+    expect(result.trend.recentArtists).toEqual(["Wet Leg", "Turnstile", "Fontaines D.C."])
+    expect(result.artists.map((artist) => artist.name)).toEqual(
+      result.trend.recentArtists
+    )
+    expect(result.songs).toHaveLength(5)
+  })
+
+  test("fails loudly on unrecorded calls", async () => {
+    await expect(playlistGenius.analyzeMusicTrend("polka")).rejects.toBeInstanceOf(
+      UnrecordedCallError
+    )
+  })
+})
@@ -0,0 +1,134 @@
+import { parseWithSchema, songSchema, songAnalysisSchema, artistSchema } from "../schemas"
+import { requestStructured } from "../services/structuredOutput"
+import { SchemaValidationError } from "../errors"
+
+describe("schemas", () => {
+  test("coerces near-miss song shapes", () => {
+    const result = parseWithSchema(songSchema, {
+      title: "Creep",
+      artist: "Radiohead",
+      genre: "alternative rock, grunge",
+      tempo: "92 BPM",
+      popularity: "85",
+      year: "1992",
+      duration: "3:58",
+    })
+
+    expect(result.issues).toEqual([])
+    expect(result.value).toEqual({
+      title: "Creep",
+      artist: "Radiohead",
+      genre: ["alternative rock", "grunge"],
+      tempo: 92,
+      popularity: 85,
+      year: 1992,
+      duration: 238,
+    })
+  })
+
+  test("reports the path of every invalid field", () => {
+    const result = parseWithSchema(songAnalysisSchema, {
+      title: "Creep",
+      artist: "Radiohead",
+      features: { genre: ["rock"], mood: "melancholic", tempo: "slow" },
+    })
+
+    expect(result.value).toBeUndefined()
+    expect(result.issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining(["$.features.tempo", "$.features.energy", "$.features.key"])
+    )
+  })
+
+  test("rejects a song analysis without features", () => {
+    const result = parseWithSchema(songAnalysisSchema, {
+      title: "Creep",
+      artist: "Radiohead",
+    })
+
+    expect(result.issues).toEqual([
+      { path: "$.features", message: "expected an object, got undefined" },
+    ])
+  })
+
+  test("unwraps single-key wrappers and fills optional defaults", () => {
+    const result = parseWithSchema(artistSchema, {
+      artist: { name: "Radiohead", genres: "rock", popularity: 80 },
+    })
+
+    expect(result.value).toEqual({
+      name: "Radiohead",
+      genres: ["rock"],
+      popularity: 80,
+      topTracks: [],
+      similarArtists: [],
+      era: [],
+      description: "",
+    })
+  })
+
+  test("converts percentages to ratios", () => {
+    const result = parseWithSchema(songAnalysisSchema, {
+      title: "Creep",
+      artist: "Radiohead",
+      features: {
+        genre: ["rock"],
+        mood: ["sad"],
+        tempo: 92,
+        energy: 45,
+        danceability: 0.3,
+        valence: 0.1,
+        acousticness: 0.2,
+        instrumentalness: 0,
+        popularity: 85,
+        year: 1992,
+        key: "G major",
+        timeSignature: 4,
+      },
+    })
+
+    expect(result.value?.features.energy).toBe(0.45)
+    expect(result.value?.features.timeSignature).toBe("4")
+  })
+})
+
+describe("requestStructured", () => {
+  const validArtist = { name: "Radiohead", genres: ["rock"], popularity: 80 }
+
+  test("feeds validation errors back to the model", async () => {
+    const complete = jest
+      .fn()
+      .mockResolvedValueOnce(JSON.stringify({ name: "Radiohead" }))
+      .mockResolvedValueOnce(JSON.stringify(validArtist))
+
+    const result = await requestStructured(
+      complete,
+      [{ role: "user", content: "Analyze Radiohead" }],
+      artistSchema,
+      { operation: "analyzeArtist" }
+    )
+
+    expect(result.name).toBe("Radiohead")
+    expect(complete).toHaveBeenCalledTimes(2)
+    const repairConversation = complete.mock.calls[1][0]
+    expect(repairConversation).toHaveLength(3)
+    expect(repairConversation[2].content).toContain("$.genres")
+  })
+
+  test("throws a SchemaValidationError after the last attempt", async () => {
+    const complete = jest.fn().mockResolvedValue("not json")
+
+    const request = requestStructured(
+      complete,
+      [{ role: "user", content: "Analyze Radiohead" }],
+      artistSchema,
+      { operation: "analyzeArtist", maxAttempts: 2 }
+    )
+
+    await expect(request).rejects.toBeInstanceOf(SchemaValidationError)
+    await expect(request).rejects.toMatchObject({
+      operation: "analyzeArtist",
+      attempts: 2,
+    })
+    expect(complete).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,101 @@
+import { SongVerifier } from "../services/songVerifier"
+import { LocalCatalogSource } from "../services/catalogSources"
+import { PlaylistGenius } from "../index"
+import { CatalogTrack, LogLevel, Song } from "../types"
+
+const catalog: CatalogTrack[] = [
+  { id: "t1", title: "Everlong", artist: "Foo Fighters", year: 1997, duration: 250 },
+  { id: "t2", title: "Mr. Brightside", artist: "The Killers", year: 2004, duration: 222 },
+  { id: "t3", title: "Seven Nation Army", artist: "The White Stripes", year: 2003 },
+]
+
+const song = (title: string, artist: string, year: number = 2000): Song => ({
+  title,
+  artist,
+  genre: ["rock"],
+  tempo: 140,
+  popularity: 70,
+  year,
+  duration: 220,
+})
+
+describe("SongVerifier", () => {
+  const verifier = new SongVerifier(new LocalCatalogSource(catalog))
+
+  test("resolves songs against the catalog", async () => {
+    const result = await verifier.verify([
+      song("Everlong", "Foo Fighters", 1997),
+      song("Mr Brightside", "Killers", 2004),
+    ])
+
+    expect(result.unresolved).toEqual([])
+    expect(result.verified.map((s) => s.verification?.trackId)).toEqual(["t1", "t2"])
+    // 30 secondes d'écart de durée avec le catalogue
+    expect(result.verified[0].verification).toEqual({
+      source: "local",
+      confidence: 0.95,
+      trackId: "t1",
+    })
+  })
+
+  test("marks hallucinated songs as unresolved", async () => {
+    const result = await verifier.verify([
+      song("Electric Moonlight Parade", "Foo Fighters"),
+    ])
+
+    expect(result.verified).toEqual([])
+    expect(result.unresolved[0].verification).toEqual({
+      source: "local",
+      confidence: 0,
+      trackId: undefined,
+    })
+  })
+})
+
+describe("PlaylistGenius verification", () => {
+  test("replaces unresolved songs with regenerated suggestions", async () => {
+    const complete = jest
+      .fn()
+      .mockResolvedValueOnce({
+        model: "test",
+        content: JSON.stringify({
+          songs: [song("Everlong", "Foo Fighters", 1997), song("Fake Song", "Nobody")],
+          explanation: "Rock",
+          tags: ["rock"],
+        }),
+      })
+      .mockResolvedValueOnce({
+        model: "test",
+        content: JSON.stringify({
+          songs: [song("Seven Nation Army", "The White Stripes", 2003)],
+        }),
+      })
+
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+        verification: { catalog: new LocalCatalogSource(catalog) },
+      }
+    )
+
+    const result = await playlistGenius.generatePlaylistSuggestions({
+      genres: ["rock"],
+      songCount: 2,
+    })
+
+    expect(result.verified).toBe(true)
+    expect(result.songs.map((s) => s.verification?.trackId)).toEqual(["t1", "t3"])
+    expect(result.rejected).toEqual([
+      {
+        song: expect.objectContaining({ title: "Fake Song" }),
+        reasons: [expect.objectContaining({ code: "unverified" })],
+      },
+    ])
+    expect(complete.mock.calls[1][0].messages[1].content).toContain(
+      '- "Fake Song" by Nobody'
+    )
+  })
+})
@@ -3,6 +3,9 @@ import { LoggerService } from "../services/logger"
 import { LogLevel } from "../types"
 import { CacheService } from "../services/cache"
 import SpotifyWebApi from "spotify-web-api-node"
+import { AuthRequiredError, InvalidAuthStateError } from "../errors"
+import { codeChallengeFor } from "../services/spotifyAuth"
+import { MemoryTokenStore } from "../services/tokenStore"
 
 jest.mock("spotify-web-api-node")
 
@@ -41,9 +44,11 @@ describe("SpotifyService", () => {
       getRefreshToken: jest.fn().mockReturnValue("mock-refresh-token"),
       searchTracks: jest.fn(),
       getAudioFeaturesForTrack: jest.fn(),
+      getAudioFeaturesForTracks: jest.fn(),
       createPlaylist: jest.fn(),
       addTracksToPlaylist: jest.fn(),
       getArtist: jest.fn(),
+      getArtists: jest.fn(),
       getRecommendations: jest.fn(),
       getArtistTopTracks: jest.fn(),
       getArtistRelatedArtists: jest.fn(),
@@ -107,6 +112,174 @@ describe("SpotifyService", () => {
       const result = await spotifyService.refreshAccessToken()
       expect(result).toEqual(mockTokens)
     }, 15000)
+
+    test("passes a random state and validates it on callback", async () => {
+      spotifyService.getAuthorizationUrl()
+      const state = mockSpotifyApi.createAuthorizeURL.mock.calls[0][1] as string
+      expect(state).not.toBe("state")
+
+      mockSpotifyApi.authorizationCodeGrant = jest.fn().mockResolvedValue({
+        body: { access_token: "access", refresh_token: "refresh", expires_in: 3600 },
+      }) as any
+
+      await expect(spotifyService.getTokens("code", "forged")).rejects.toThrow(
+        InvalidAuthStateError
+      )
+      await expect(spotifyService.getTokens("code", state)).resolves.toEqual({
+        accessToken: "access",
+        refreshToken: "refresh",
+        expiresIn: 3600,
+      })
+      // Un state ne sert qu'une fois
+      await expect(spotifyService.getTokens("code", state)).rejects.toThrow(
+        InvalidAuthStateError
+      )
+    })
+
+    test("uses configured scopes", () => {
+      const service = new SpotifyService(
+        mockCredentials,
+        mockCacheService,
+        mockLoggerService,
+        {
+          auth: { scopes: ["user-top-read"] },
+        }
+      )
+      service.getAuthorizationUrl()
+      expect(mockSpotifyApi.createAuthorizeURL).toHaveBeenCalledWith(
+        ["user-top-read"],
+        expect.any(String)
+      )
+    })
+
+    test("restores stored tokens and persists refreshed ones", async () => {
+      const tokenStore = new MemoryTokenStore()
+      await tokenStore.set("default", {
+        accessToken: "old-access",
+        refreshToken: "stored-refresh",
+        expiresIn: 3600,
+        expiresAt: Date.now() - 1000, // expiré : doit être rafraîchi
+      })
+      const onTokensRefreshed = jest.fn()
+      mockSpotifyApi.refreshAccessToken.mockResolvedValue({
+        body: {
+          access_token: "new-access",
+          refresh_token: "rotated-refresh",
+          expires_in: 3600,
+        },
+      } as any)
+      mockSpotifyApi.getRefreshToken.mockReturnValue("stored-refresh")
+      mockSpotifyApi.searchTracks.mockResolvedValue({
+        body: { tracks: { items: [] } },
+      } as any)
+
+      const service = new SpotifyService(
+        mockCredentials,
+        mockCacheService,
+        mockLoggerService,
+        {
+          auth: { tokenStore, onTokensRefreshed },
+        }
+      )
+      await service.searchTracks("query")
+
+      expect(mockSpotifyApi.setRefreshToken).toHaveBeenCalledWith("stored-refresh")
+      expect(mockSpotifyApi.setAccessToken).toHaveBeenLastCalledWith("new-access")
+      expect(await tokenStore.get("default")).toMatchObject({
+        accessToken: "new-access",
+        refreshToken: "rotated-refresh",
+      })
+      expect(onTokensRefreshed).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: "rotated-refresh" })
+      )
+    })
+
+    test("retries reading the token store after a failure", async () => {
+      const tokenStore = new MemoryTokenStore()
+      jest.spyOn(tokenStore, "get").mockRejectedValueOnce(new Error("bad decrypt"))
+      mockSpotifyApi.searchTracks.mockResolvedValue({
+        body: { tracks: { items: [] } },
+      } as any)
+
+      const service = new SpotifyService(
+        mockCredentials,
+        mockCacheService,
+        mockLoggerService,
+        {
+          auth: { tokenStore },
+        }
+      )
+
+      await expect(service.restoreSession()).resolves.toBe(false)
+      service.setTokens({
+        accessToken: "fresh",
+        refreshToken: "refresh",
+        expiresIn: 3600,
+      })
+      await expect(service.searchTracks("query")).resolves.toBeDefined()
+    })
+
+    describe("PKCE", () => {
+      const fetchMock = jest.fn()
+      const pkceCredentials = {
+        clientId: "public-client",
+        redirectUri: "http://localhost/cb",
+      }
+      let pkceService: SpotifyService
+
+      beforeEach(() => {
+        fetchMock.mockReset()
+        global.fetch = fetchMock as unknown as typeof fetch
+        pkceService = new SpotifyService(
+          pkceCredentials,
+          mockCacheService,
+          mockLoggerService
+        )
+      })
+
+      test("builds an S256 authorization URL without client secret", () => {
+        const url = new URL(pkceService.getAuthorizationUrl())
+        expect(url.origin + url.pathname).toBe("https://accounts.spotify.com/authorize")
+        expect(url.searchParams.get("code_challenge_method")).toBe("S256")
+        expect(url.searchParams.get("code_challenge")).toMatch(/^[A-Za-z0-9_-]{43}$/)
+        expect(url.searchParams.get("state")).toBeTruthy()
+        expect(mockSpotifyApi.createAuthorizeURL).not.toHaveBeenCalled()
+      })
+
+      test("exchanges the code with the matching verifier", async () => {
+        const url = new URL(pkceService.getAuthorizationUrl())
+        const challenge = url.searchParams.get("code_challenge")!
+        fetchMock.mockResolvedValue({
+          ok: true,
+          json: async () => ({ access_token: "a", refresh_token: "r", expires_in: 3600 }),
+        })
+
+        const tokens = await pkceService.getTokens("code", url.searchParams.get("state")!)
+
+        expect(tokens).toEqual({ accessToken: "a", refreshToken: "r", expiresIn: 3600 })
+        const body = new URLSearchParams(fetchMock.mock.calls[0][1].body)
+        expect(body.get("grant_type")).toBe("authorization_code")
+        expect(body.get("client_id")).toBe("public-client")
+        expect(codeChallengeFor(body.get("code_verifier")!)).toBe(challenge)
+      })
+
+      test("refreshes without client secret and keeps the rotated token", async () => {
+        fetchMock.mockResolvedValue({
+          ok: true,
+          json: async () => ({
+            access_token: "a2",
+            refresh_token: "r2",
+            expires_in: 3600,
+          }),
+        })
+
+        const tokens = await pkceService.refreshAccessToken()
+
+        expect(tokens.refreshToken).toBe("r2")
+        expect(mockSpotifyApi.setRefreshToken).toHaveBeenCalledWith("r2")
+        expect(mockSpotifyApi.refreshAccessToken).not.toHaveBeenCalled()
+      })
+    })
   })
 
   describe("track operations", () => {
@@ -147,7 +320,7 @@ describe("SpotifyService", () => {
         energy: 0.8,
       }
 
-      mockCacheService.get.mockReturnValueOnce(undefined)
+      mockCacheService.get.mockResolvedValueOnce(undefined)
       mockSpotifyApi.getAudioFeaturesForTrack.mockResolvedValue({
         body: mockFeatures,
       } as any)
@@ -156,12 +329,173 @@ describe("SpotifyService", () => {
       expect(result1).toEqual(mockFeatures)
       expect(mockCacheService.set).toHaveBeenCalled()
 
-      mockCacheService.get.mockReturnValueOnce(mockFeatures)
+      mockCacheService.get.mockResolvedValueOnce(mockFeatures)
       const result2 = await spotifyService.getTrackFeatures("1")
       expect(result2).toEqual(mockFeatures)
     }, 15000)
   })
 
+  describe("track matching", () => {
+    const track = (
+      id: string,
+      name: string,
+      artist: string,
+      options: { album?: string; year?: number; duration?: number } = {}
+    ) => ({
+      id,
+      name,
+      artists: [{ id: `artist-${id}`, name: artist }],
+      album: {
+        name: options.album || `${name} album`,
+        release_date: `${options.year || 1971}-11-08`,
+      },
+      duration_ms: (options.duration || 482) * 1000,
+    })
+
+    const stairway = {
+      title: "Stairway to Heaven",
+      artist: "Led Zeppelin",
+      year: 1971,
+      duration: 482,
+    }
+
+    beforeEach(() => {
+      mockSpotifyApi.getRefreshToken.mockReturnValue("valid-refresh-token")
+      mockSpotifyApi.refreshAccessToken.mockResolvedValue({
+        body: { access_token: "valid-access-token", expires_in: 3600 },
+      } as any)
+    })
+
+    test("prefers the studio version by the right artist", async () => {
+      mockSpotifyApi.searchTracks.mockResolvedValue({
+        body: {
+          tracks: {
+            items: [
+              track("live", "Stairway to Heaven - Live", "Led Zeppelin", {
+                album: "The Song Remains the Same",
+                year: 1976,
+                duration: 645,
+              }),
+              track("karaoke", "Stairway to Heaven (Karaoke Version)", "Karaoke Hits"),
+              track("studio", "Stairway to Heaven - Remaster", "Led Zeppelin", {
+                album: "Led Zeppelin IV (Remaster)",
+              }),
+              track("cover", "Stairway To Heaven", "Dolly Parton", { year: 2002 }),
+            ],
+          },
+        },
+      } as any)
+
+      const match = await spotifyService.matchTrack(stairway)
+
+      expect(match.track?.id).toBe("studio")
+      expect(match.score).toBe(1)
+      expect(match.alternatives.map((a) => a.track.id)).toEqual([
+        "cover",
+        "live",
+        "karaoke",
+      ])
+      expect(match.alternatives[1].reasons).toContain("live version")
+      expect(mockSpotifyApi.searchTracks).toHaveBeenCalledWith(
+        "track:Stairway to Heaven artist:Led Zeppelin",
+        { limit: 10 }
+      )
+    })
+
+    test("returns no track when no candidate is close enough", async () => {
+      mockSpotifyApi.searchTracks.mockResolvedValue({
+        body: {
+          tracks: { items: [track("other", "Black Dog", "Led Zeppelin")] },
+        },
+      } as any)
+
+      const match = await spotifyService.matchTrack(stairway)
+
+      expect(match.track).toBeNull()
+      expect(match.alternatives.map((a) => a.track.id)).toEqual(["other"])
+    })
+
+    test("falls back to a free-text search", async () => {
+      mockSpotifyApi.searchTracks
+        .mockResolvedValueOnce({ body: { tracks: { items: [] } } } as any)
+        .mockResolvedValueOnce({
+          body: {
+            tracks: { items: [track("studio", "Stairway to Heaven", "Led Zeppelin")] },
+          },
+        } as any)
+
+      const match = await spotifyService.matchTrack({
+        ...stairway,
+        artist: "Led Zeppelin feat. Nobody",
+      })
+
+      expect(match.track?.id).toBe("studio")
+      expect(match.score).toBe(1)
+      expect(mockSpotifyApi.searchTracks).toHaveBeenLastCalledWith(
+        "Stairway to Heaven Led Zeppelin",
+        { limit: 10 }
+      )
+    })
+  })
+
+  describe("batched operations", () => {
+    beforeEach(() => {
+      mockSpotifyApi.getRefreshToken.mockReturnValue("valid-refresh-token")
+      mockSpotifyApi.refreshAccessToken.mockResolvedValue({
+        body: { access_token: "valid-access-token", expires_in: 3600 },
+      } as any)
+    })
+
+    test("fetches uncached audio features in batches of 100", async () => {
+      const ids = Array.from({ length: 150 }, (_, i) => `track-${i}`)
+      mockCacheService.get.mockImplementation(async (key: any) =>
+        key.criteria.trackId === "track-0" ? { id: "track-0", cached: true } : undefined
+      )
+      mockSpotifyApi.getAudioFeaturesForTracks.mockImplementation(
+        async (batch: readonly string[]) =>
+          ({ body: { audio_features: batch.map((id) => ({ id })) } }) as any
+      )
+
+      const features = await spotifyService.getTracksAudioFeatures(ids)
+
+      expect(features).toHaveLength(150)
+      expect(features[0]).toEqual({ id: "track-0", cached: true })
+      expect(mockSpotifyApi.getAudioFeaturesForTracks).toHaveBeenCalledTimes(2)
+      expect(mockSpotifyApi.getAudioFeaturesForTracks.mock.calls[0][0]).toHaveLength(100)
+      expect(mockSpotifyApi.getAudioFeaturesForTracks.mock.calls[1][0]).toHaveLength(49)
+      expect(mockCacheService.set).toHaveBeenCalledTimes(149)
+    })
+
+    test("keeps the features of successful batches when one fails", async () => {
+      const ids = Array.from({ length: 120 }, (_, i) => `track-${i}`)
+      mockCacheService.get.mockResolvedValue(undefined)
+      mockSpotifyApi.getAudioFeaturesForTracks
+        .mockRejectedValueOnce({ statusCode: 500 })
+        .mockImplementationOnce(
+          async (batch: readonly string[]) =>
+            ({ body: { audio_features: batch.map((id) => ({ id })) } }) as any
+        )
+
+      const features = await spotifyService.getTracksAudioFeatures(ids)
+
+      expect(features.map((f) => f.id)).toEqual(ids.slice(100))
+    })
+
+    test("fetches artists in batches of 50", async () => {
+      const ids = Array.from({ length: 60 }, (_, i) => `artist-${i}`)
+      mockCacheService.get.mockResolvedValue(undefined)
+      mockSpotifyApi.getArtists.mockImplementation(
+        async (batch: readonly string[]) =>
+          ({ body: { artists: batch.map((id) => ({ id, genres: ["rock"] })) } }) as any
+      )
+
+      const artists = await spotifyService.getArtists([...ids, "artist-0"])
+
+      expect(artists.map((a) => a.id)).toEqual(ids)
+      expect(mockSpotifyApi.getArtists).toHaveBeenCalledTimes(2)
+    })
+  })
+
   describe("playlist operations", () => {
     beforeEach(() => {
       // Assurer que l'authentification est valide pour chaque test
@@ -209,22 +543,43 @@ describe("SpotifyService", () => {
       await expect(spotifyService.searchTracks("test")).rejects.toThrow()
     }, 15000)
 
+    test("does not fall back to recommendations without authentication", async () => {
+      mockSpotifyApi.getRefreshToken.mockReturnValue(undefined)
+      mockCacheService.get.mockResolvedValue(undefined)
+
+      await expect(spotifyService.getUserTopTracks("medium_term")).rejects.toThrow(
+        AuthRequiredError
+      )
+      await expect(spotifyService.getTracksAudioFeatures(["track-1"])).rejects.toThrow(
+        AuthRequiredError
+      )
+      await expect(spotifyService.getArtists(["artist-1"])).rejects.toThrow(
+        AuthRequiredError
+      )
+      expect(mockSpotifyApi.getRecommendations).not.toHaveBeenCalled()
+    })
+
+    test("falls back to recommendations when top tracks fail", async () => {
+      mockSpotifyApi.getRefreshToken.mockReturnValue("valid-refresh-token")
+      mockSpotifyApi.getMyTopTracks.mockRejectedValue({ statusCode: 404 })
+      mockSpotifyApi.getRecommendations.mockResolvedValue({
+        body: { tracks: [{ id: "track-1" }] },
+      } as any)
+      mockSpotifyApi.getTracks.mockResolvedValue({
+        body: { tracks: [{ id: "track-1", name: "Song" }] },
+      } as any)
+
+      const tracks = await spotifyService.getUserTopTracks("medium_term")
+
+      expect(tracks).toEqual([{ id: "track-1", name: "Song" }])
+    })
+
     test("handles getArtist error", async () => {
       mockSpotifyApi.getArtist.mockRejectedValue(new Error("Artist not found"))
 
-      const result = await spotifyService.getArtist("non-existent-artist-id")
-      expect(result).toEqual({
-        id: "non-existent-artist-id",
-        name: "",
-        type: "artist",
-        uri: `spotify:artist:non-existent-artist-id`,
-        genres: [],
-        href: "",
-        external_urls: { spotify: "" },
-        followers: { href: null, total: 0 },
-        images: [],
-        popularity: 0,
-      })
+      await expect(spotifyService.getArtist("non-existent-artist-id")).rejects.toThrow(
+        expect.objectContaining({ name: "ProviderError", operation: "getArtist" })
+      )
     }, 15000)
   })
 })
@@ -0,0 +1,29 @@
+import { AuthAttemptRegistry } from "../services/spotifyAuth"
+import { InvalidAuthStateError } from "../errors"
+
+describe("AuthAttemptRegistry", () => {
+  it("expires pending attempts after the TTL", () => {
+    let clock = 0
+    const registry = new AuthAttemptRegistry(1000, () => clock)
+    const attempt = registry.begin(true)
+
+    clock = 1500
+    expect(() => registry.consume(attempt.state)).toThrow(InvalidAuthStateError)
+  })
+
+  it("purges expired attempts when new ones begin", () => {
+    let clock = 0
+    const registry = new AuthAttemptRegistry(1000, () => clock)
+    registry.begin(false)
+    clock = 2000
+    registry.begin(false)
+
+    expect(registry.size).toBe(1)
+  })
+
+  it("only creates a code verifier in PKCE mode", () => {
+    const registry = new AuthAttemptRegistry()
+    expect(registry.begin(false).codeVerifier).toBeUndefined()
+    expect(registry.begin(true).codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/)
+  })
+})
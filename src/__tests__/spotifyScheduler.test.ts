@@ -0,0 +1,138 @@
+import { SpotifyRequestScheduler } from "../services/spotifyScheduler"
+
+const httpError = (statusCode: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${statusCode}`), { statusCode, headers })
+
+describe("SpotifyRequestScheduler", () => {
+  let clock: number
+  let sleeps: number[]
+  let scheduler: SpotifyRequestScheduler
+
+  beforeEach(() => {
+    clock = 0
+    sleeps = []
+    scheduler = new SpotifyRequestScheduler({
+      baseDelayMs: 100,
+      now: () => clock,
+      sleep: async (ms) => {
+        sleeps.push(ms)
+        clock += ms
+      },
+      random: () => 1,
+    })
+  })
+
+  it("honors Retry-After before retrying", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce("ok")
+
+    await expect(scheduler.schedule(request)).resolves.toBe("ok")
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(sleeps).toEqual([2000])
+  })
+
+  it("queues other callers during the cooldown", async () => {
+    const pending: Array<() => void> = []
+    const queued = new SpotifyRequestScheduler({
+      now: () => clock,
+      sleep: (ms) =>
+        new Promise((resolve) =>
+          pending.push(() => {
+            clock += ms
+            resolve()
+          })
+        ),
+    })
+
+    const limited = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "3" }))
+      .mockResolvedValueOnce("limited")
+    const first = queued.schedule(limited)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const other = jest.fn().mockResolvedValue("other")
+    const second = queued.schedule(other)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    // Les deux appelants attendent la fin de la pause
+    expect(other).not.toHaveBeenCalled()
+    expect(pending).toHaveLength(2)
+
+    pending.splice(0).forEach((release) => release())
+    await expect(Promise.all([first, second])).resolves.toEqual(["limited", "other"])
+    expect(other).toHaveBeenCalledTimes(1)
+  })
+
+  it("retries server errors with exponential backoff", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce("ok")
+
+    await expect(scheduler.schedule(request)).resolves.toBe("ok")
+    expect(sleeps).toEqual([100, 200])
+  })
+
+  it("refreshes the token on 401 and retries", async () => {
+    const onUnauthorized = jest.fn().mockResolvedValue(undefined)
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(401))
+      .mockResolvedValueOnce("ok")
+
+    await expect(scheduler.schedule(request, { onUnauthorized })).resolves.toBe("ok")
+    expect(onUnauthorized).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not retry server errors on non-idempotent requests", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "1" }))
+      .mockRejectedValueOnce(httpError(502))
+
+    await expect(scheduler.schedule(request, { idempotent: false })).rejects.toThrow(
+      "HTTP 502"
+    )
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it("stops waiting as soon as the call is aborted", async () => {
+    for (const failure of [httpError(429, { "retry-after": "30" }), httpError(503)]) {
+      const controller = new AbortController()
+      const cancellable = new SpotifyRequestScheduler({
+        baseDelayMs: 30000,
+        signal: () => controller.signal,
+      })
+      const request = jest.fn().mockRejectedValue(failure)
+
+      const scheduled = cancellable.schedule(request, { label: "searchTracks" })
+      await new Promise((resolve) => setImmediate(resolve))
+      controller.abort()
+
+      await expect(scheduled).rejects.toMatchObject({
+        name: "CancelledError",
+        reason: "aborted",
+      })
+      expect(request).toHaveBeenCalledTimes(1)
+    }
+  })
+
+  it("gives up after maxRetries", async () => {
+    const request = jest.fn().mockRejectedValue(httpError(500))
+
+    await expect(scheduler.schedule(request)).rejects.toThrow("HTTP 500")
+    expect(request).toHaveBeenCalledTimes(4)
+  })
+
+  it("does not retry non-retryable errors", async () => {
+    const request = jest.fn().mockRejectedValue(httpError(404))
+
+    await expect(scheduler.schedule(request)).rejects.toThrow("HTTP 404")
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(sleeps).toEqual([])
+  })
+})
@@ -0,0 +1,87 @@
+import SpotifyWebApi from "spotify-web-api-node"
+import { SpotifySessionRegistry } from "../services/spotifySessions"
+import { CacheService } from "../services/cache"
+import { LoggerService } from "../services/logger"
+import { MemoryTokenStore } from "../services/tokenStore"
+import { LogLevel } from "../types"
+
+const createClient = () =>
+  ({
+    setAccessToken: jest.fn(),
+    setRefreshToken: jest.fn(),
+    getRefreshToken: jest.fn(),
+    createAuthorizeURL: jest.fn().mockReturnValue("http://mock-auth-url"),
+  }) as unknown as SpotifyWebApi
+
+describe("SpotifySessionRegistry", () => {
+  const credentials = { clientId: "id", clientSecret: "secret", redirectUri: "http://cb" }
+  let cacheService: CacheService
+  let tokenStore: MemoryTokenStore
+  let registry: SpotifySessionRegistry
+
+  beforeEach(() => {
+    cacheService = new CacheService()
+    tokenStore = new MemoryTokenStore()
+    registry = new SpotifySessionRegistry(
+      credentials,
+      cacheService,
+      new LoggerService({ level: LogLevel.ERROR, consoleOutput: false }),
+      { createClient, auth: { tokenStore } }
+    )
+  })
+
+  it("creates one session per user and reuses it", () => {
+    const alice = registry.get("alice")
+
+    expect(registry.get("alice")).toBe(alice)
+    expect(registry.get("bob")).not.toBe(alice)
+    expect(registry.get("bob").service).not.toBe(alice.service)
+    expect(alice.cacheNamespace).toBe("user:alice")
+    expect(registry.size).toBe(2)
+  })
+
+  it("keeps tokens separate per user", async () => {
+    registry.get("alice").service.setTokens({
+      accessToken: "alice-token",
+      refreshToken: "alice-refresh",
+      expiresIn: 3600,
+    })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect((await tokenStore.get("alice"))?.accessToken).toBe("alice-token")
+    expect(await tokenStore.get("bob")).toBeUndefined()
+  })
+
+  it("forgets tokens and cached data when a session is removed", async () => {
+    const alice = registry.get("alice")
+    alice.service.setTokens({ accessToken: "a", refreshToken: "r", expiresIn: 3600 })
+    const key = {
+      type: "user_taste_analysis",
+      criteria: {},
+      namespace: alice.cacheNamespace,
+    }
+    await cacheService.set(key, "taste")
+
+    await registry.remove("alice")
+
+    expect(registry.has("alice")).toBe(false)
+    expect(await cacheService.get(key)).toBeUndefined()
+    expect(await tokenStore.get("alice")).toBeUndefined()
+  })
+
+  it("does not clear the cache of users whose id extends the removed one", async () => {
+    const key = (userId: string) => ({
+      type: "user_taste_analysis",
+      criteria: {},
+      namespace: registry.get(userId).cacheNamespace,
+    })
+    await cacheService.set(key("a"), "a")
+    await cacheService.set(key("a:b"), "a:b")
+
+    await registry.remove("a")
+
+    expect(registry.get("a:b").cacheNamespace).toBe("user:a%3Ab")
+    expect(await cacheService.get(key("a"))).toBeUndefined()
+    expect(await cacheService.get(key("a:b"))).toBe("a:b")
+  })
+})
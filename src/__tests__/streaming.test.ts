@@ -0,0 +1,203 @@
+import { PlaylistGenius } from "../index"
+import { JsonArrayItemParser } from "../utils/jsonStream"
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMProvider,
+  LogLevel,
+  PlaylistStreamEvent,
+  Song,
+} from "../types"
+
+const song = (title: string, artist = "Blur"): Song => ({
+  title,
+  artist,
+  genre: ["britpop"],
+  tempo: 120,
+  popularity: 70,
+  year: 1995,
+  duration: 200,
+})
+
+const response = (songs: Song[]) =>
+  JSON.stringify({ songs, explanation: "Britpop classics", tags: ["90s"] })
+
+// Découpe le texte en morceaux de taille fixe, comme les deltas d'un flux
+const chunksOf = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+    text.slice(i * size, (i + 1) * size)
+  )
+
+const collect = async (events: AsyncIterable<PlaylistStreamEvent>) => {
+  const collected: PlaylistStreamEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+describe("JsonArrayItemParser", () => {
+  test("emits each item as soon as it is complete", () => {
+    const parser = new JsonArrayItemParser("songs")
+    const text = JSON.stringify({
+      mood: { songs: [{ title: "not this one" }] },
+      songs: [{ title: 'Brace } and "quote"' }, { title: "B", genre: ["[x]"] }],
+      explanation: "done",
+    })
+    const cut = text.indexOf("},{") + 1
+
+    expect(parser.push(text.slice(0, cut - 3))).toEqual([])
+    expect(parser.push(text.slice(cut - 3, cut))).toEqual([
+      { title: 'Brace } and "quote"' },
+    ])
+    expect(parser.push(text.slice(cut))).toEqual([{ title: "B", genre: ["[x]"] }])
+    expect(parser.content).toBe(text)
+  })
+
+  test("accepts a root array", () => {
+    const parser = new JsonArrayItemParser("songs")
+    const items = chunksOf('[{"a":1},{"a":2}]', 3).flatMap((chunk) => parser.push(chunk))
+    expect(items).toEqual([{ a: 1 }, { a: 2 }])
+  })
+})
+
+describe("PlaylistGenius.streamPlaylistSuggestions", () => {
+  const createGenius = (provider: LLMProvider, withSpotify = false) =>
+    new PlaylistGenius(
+      "",
+      withSpotify
+        ? { clientId: "id", clientSecret: "secret", redirectUri: "http://cb" }
+        : undefined,
+      { level: LogLevel.ERROR },
+      { llm: { provider } }
+    )
+
+  const streamingProvider = (content: string, onChunk: () => void = () => undefined) => {
+    const complete = jest.fn()
+    const provider: LLMProvider = {
+      name: "mock",
+      complete,
+      async *stream(request: LLMCompletionRequest, options?: LLMCallOptions) {
+        for (const chunk of chunksOf(content, 7)) {
+          if (options?.signal?.aborted) throw new Error("stream aborted")
+          onChunk()
+          await new Promise((resolve) => setImmediate(resolve))
+          yield { content: chunk, model: request.model }
+        }
+      },
+    }
+    return { provider, complete }
+  }
+
+  test("streams songs, rejections and the final result in order", async () => {
+    const content = response([
+      song("Parklife"),
+      song("Wonderwall", "Oasis"),
+      song("Tender"),
+    ])
+    const { provider, complete } = streamingProvider(content)
+    const playlistGenius = createGenius(provider)
+
+    const events = await collect(
+      playlistGenius.streamPlaylistSuggestions({
+        genres: ["britpop"],
+        excludedArtists: ["Oasis"],
+        songCount: 2,
+      })
+    )
+
+    expect(events.map((event) => event.type)).toEqual([
+      "song",
+      "rejected",
+      "song",
+      "done",
+    ])
+    expect(events[2]).toEqual({ type: "song", index: 1, song: song("Tender") })
+    expect(events[3]).toMatchObject({
+      type: "done",
+      result: {
+        songs: [song("Parklife"), song("Tender")],
+        explanation: "Britpop classics",
+        tags: ["90s"],
+        totalDuration: 400,
+      },
+    })
+    expect(complete).not.toHaveBeenCalled()
+    expect(
+      playlistGenius.getUsageReport().byOperation.streamPlaylistSuggestions.calls
+    ).toBe(1)
+  })
+
+  test("falls back to a single completion without a streaming provider", async () => {
+    const complete = jest.fn(async (request: LLMCompletionRequest) => ({
+      model: request.model,
+      content: response([song("Parklife")]),
+    }))
+    const playlistGenius = createGenius({ name: "mock", complete })
+
+    const events = await collect(
+      playlistGenius.streamPlaylistSuggestions({ genres: ["britpop"], songCount: 1 })
+    )
+    expect(events.map((event) => event.type)).toEqual(["song", "done"])
+  })
+
+  test("resolves each song on Spotify as it arrives", async () => {
+    const { provider } = streamingProvider(response([song("Parklife"), song("Tender")]))
+    const playlistGenius = createGenius(provider, true)
+    const session = playlistGenius.getSpotifySession()
+    const track = { id: "parklife" } as SpotifyApi.TrackObjectFull
+    jest.spyOn(session.service, "matchTrack").mockImplementation(async (target) => {
+      if (target.title === "Tender") throw new Error("search failed")
+      return { track, score: 0.9, alternatives: [] }
+    })
+
+    const events = await collect(
+      playlistGenius.streamPlaylistSuggestions(
+        { genres: ["britpop"], songCount: 2 },
+        session
+      )
+    )
+
+    expect(events.filter((event) => event.type === "track")).toEqual([
+      { type: "track", index: 0, song: song("Parklife"), track },
+      { type: "track", index: 1, song: song("Tender"), track: null },
+    ])
+    expect(events[events.length - 1].type).toBe("done")
+  })
+
+  test("stops generating when the consumer leaves the loop", async () => {
+    let pulled = 0
+    const content = response([song("Parklife"), song("Tender"), song("Beetlebum")])
+    const { provider } = streamingProvider(content, () => pulled++)
+    const playlistGenius = createGenius(provider)
+
+    for await (const event of playlistGenius.streamPlaylistSuggestions({
+      genres: ["britpop"],
+      songCount: 3,
+    })) {
+      if (event.type === "song") break
+    }
+
+    expect(pulled).toBeLessThan(chunksOf(content, 7).length)
+  })
+
+  test("rejects with a CancelledError when the caller aborts", async () => {
+    const controller = new AbortController()
+    const { provider } = streamingProvider(response([song("Parklife"), song("Tender")]))
+    const playlistGenius = createGenius(provider)
+
+    const iterate = async () => {
+      for await (const event of playlistGenius.streamPlaylistSuggestions(
+        { genres: ["britpop"], songCount: 2 },
+        undefined,
+        { signal: controller.signal }
+      )) {
+        if (event.type === "song") controller.abort()
+      }
+    }
+
+    await expect(iterate()).rejects.toMatchObject({
+      name: "CancelledError",
+      reason: "aborted",
+      operation: "streamPlaylistSuggestions",
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { FileTokenStore, MemoryTokenStore } from "../services/tokenStore"
+
+const tokens = {
+  accessToken: "access-secret",
+  refreshToken: "refresh-secret",
+  expiresIn: 3600,
+  expiresAt: 1700000000000,
+}
+
+describe("token stores", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tokens-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("keeps tokens per session in memory", async () => {
+    const store = new MemoryTokenStore()
+    await store.set("alice", tokens)
+
+    expect(await store.get("alice")).toEqual(tokens)
+    expect(await store.get("bob")).toBeUndefined()
+    await store.delete("alice")
+    expect(await store.get("alice")).toBeUndefined()
+  })
+
+  it("encrypts tokens at rest and reads them back", async () => {
+    const path = join(dir, "tokens.json")
+    await new FileTokenStore(path, { encryptionKey: "passphrase" }).set("alice", tokens)
+
+    const raw = readFileSync(path, "utf8")
+    expect(raw).not.toContain("refresh-secret")
+
+    // Nouvelle instance : simule un redémarrage du processus
+    const reopened = new FileTokenStore(path, { encryptionKey: "passphrase" })
+    expect(await reopened.get("alice")).toEqual(tokens)
+  })
+
+  it("rejects a wrong key", async () => {
+    const path = join(dir, "tokens.json")
+    await new FileTokenStore(path, { encryptionKey: "passphrase" }).set("alice", tokens)
+
+    await expect(
+      new FileTokenStore(path, { encryptionKey: "other" }).get("alice")
+    ).rejects.toThrow("Unable to decrypt token file")
+  })
+
+  it("does not lose sessions on concurrent writes", async () => {
+    const store = new FileTokenStore(join(dir, "tokens.json"), { encryptionKey: "k" })
+    await Promise.all([store.set("alice", tokens), store.set("bob", tokens)])
+
+    expect(await store.get("alice")).toEqual(tokens)
+    expect(await store.get("bob")).toEqual(tokens)
+  })
+})
@@ -0,0 +1,227 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { PlaylistGenius } from "../index"
+import { Tracer } from "../services/tracing"
+import { LoggerService } from "../services/logger"
+import { TracedProvider } from "../providers/traced"
+import { SpotifyRequestScheduler } from "../services/spotifyScheduler"
+import { LLMCompletionRequest, LogLevel } from "../types"
+
+describe("Tracer", () => {
+  test("nests spans under the trace of the outermost call", async () => {
+    let now = 1000
+    const tracer = new Tracer({}, () => now)
+
+    const context = await tracer.run("outer", async () => {
+      now += 5
+      await tracer.run("inner", async () => {
+        now += 20
+      })
+      return tracer.current()
+    })
+
+    const [inner, outer] = tracer.getSpans()
+    expect(context).toEqual({ requestId: outer.traceId, span: "outer" })
+    expect(inner).toEqual(
+      expect.objectContaining({
+        name: "inner",
+        traceId: outer.traceId,
+        parentSpanId: outer.spanId,
+        durationMs: 20,
+      })
+    )
+    expect(outer.parentSpanId).toBeUndefined()
+    expect(outer.durationMs).toBe(25)
+  })
+
+  test("starts a new trace for each top-level call", async () => {
+    const tracer = new Tracer()
+    await tracer.run("a", async () => undefined)
+    await tracer.run("b", async () => undefined)
+
+    const [a, b] = tracer.getSpans()
+    expect(a.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(a.traceId).not.toBe(b.traceId)
+    expect(tracer.current()).toBeUndefined()
+  })
+
+  test("records failed spans and rethrows", async () => {
+    const tracer = new Tracer()
+
+    await expect(
+      tracer.run("failing", async () => {
+        throw new Error("boom")
+      })
+    ).rejects.toThrow("boom")
+    expect(tracer.getSpans()[0].error).toBe("boom")
+  })
+
+  test("keeps only the most recent spans", async () => {
+    const tracer = new Tracer({ maxSpans: 2 })
+    for (const name of ["a", "b", "c"]) {
+      await tracer.run(name, async () => undefined)
+    }
+
+    expect(tracer.getSpans().map((span) => span.name)).toEqual(["b", "c"])
+  })
+
+  test("exports spans as OTLP JSON and empties the buffer", async () => {
+    const tracer = new Tracer({ serviceName: "test-app" }, () => 1700000000123)
+    await tracer.run(
+      "op",
+      async () => tracer.setAttributes({ "llm.model": "gpt-4o", tokens: 12 }),
+      { kind: "client" }
+    )
+    await expect(
+      tracer.run("bad", () => Promise.reject(new Error("nope")))
+    ).rejects.toThrow()
+
+    const file = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), "traces-")),
+      "spans.json"
+    )
+    expect(await tracer.exportTo(file)).toBe(2)
+    expect(tracer.getSpans()).toEqual([])
+
+    const exported = JSON.parse(await fs.readFile(file, "utf8"))
+    const { resource, scopeSpans } = exported.resourceSpans[0]
+    expect(resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "test-app" } },
+    ])
+    const [op, bad] = scopeSpans[0].spans
+    expect(op).toEqual(
+      expect.objectContaining({
+        name: "op",
+        kind: 3,
+        startTimeUnixNano: "1700000000123000000",
+        status: { code: 0 },
+        attributes: [
+          { key: "llm.model", value: { stringValue: "gpt-4o" } },
+          { key: "tokens", value: { intValue: "12" } },
+        ],
+      })
+    )
+    expect(bad.status).toEqual({ code: 2, message: "nope" })
+  })
+
+  test("keeps the buffered spans when the export fails", async () => {
+    const tracer = new Tracer()
+    await tracer.run("op", async () => undefined)
+
+    const missingDir = path.join(os.tmpdir(), "missing-traces-dir", "x", "spans.json")
+    await expect(tracer.exportTo(missingDir)).rejects.toThrow()
+    expect(tracer.getSpans().map((span) => span.name)).toEqual(["op"])
+  })
+
+  test("redacts span errors with the logger rules", async () => {
+    const tracer = new Tracer()
+    new LoggerService({ level: LogLevel.ERROR }, tracer)
+
+    const failure = new Error("refresh failed for jane@example.com (Bearer abc.def)")
+    await expect(
+      tracer.run("spotify.refresh", () => Promise.reject(failure))
+    ).rejects.toBe(failure)
+    expect(tracer.getSpans()[0].error).toBe(
+      "refresh failed for [REDACTED] (Bearer [REDACTED])"
+    )
+  })
+
+  test("ends a stream span when the consumer stops early", async () => {
+    const tracer = new Tracer()
+    const provider = new TracedProvider(
+      {
+        name: "mock",
+        complete: jest.fn(),
+        async *stream() {
+          yield { content: "a" }
+          yield { content: "b" }
+        },
+      },
+      tracer
+    )
+
+    for await (const chunk of provider.stream!({ model: "gpt-4o", messages: [] })) {
+      if (chunk.content === "a") break
+    }
+    expect(tracer.getSpans()).toEqual([
+      expect.objectContaining({ name: "llm.stream", error: undefined }),
+    ])
+  })
+
+  test("opens a client span per scheduled Spotify request", async () => {
+    const tracer = new Tracer()
+    const scheduler = new SpotifyRequestScheduler({}, undefined, tracer)
+
+    await tracer.run("outer", () =>
+      scheduler.schedule(async () => "ok", { label: "searchTracks" })
+    )
+
+    const [request, outer] = tracer.getSpans()
+    expect(request).toEqual(
+      expect.objectContaining({ name: "spotify.searchTracks", kind: "client" })
+    )
+    expect(request.parentSpanId).toBe(outer.spanId)
+  })
+})
+
+describe("PlaylistGenius tracing", () => {
+  test("ties every call of a fan-out to the same request id", async () => {
+    const complete = jest.fn(async (request: LLMCompletionRequest) => {
+      const prompt = request.messages[request.messages.length - 1].content
+      if (prompt.includes("Analyze the current trend")) {
+        return {
+          model: request.model,
+          content: JSON.stringify({
+            genre: "jazz",
+            popularity: 60,
+            recentArtists: ["Kamasi Washington"],
+            recentSongs: ["Truth"],
+            growthRate: 0.1,
+            prediction: "Growing",
+          }),
+        }
+      }
+      if (prompt.includes("Analyze the artist")) {
+        return {
+          model: request.model,
+          content: JSON.stringify({
+            name: "Kamasi Washington",
+            genres: ["jazz"],
+            popularity: 70,
+            topTracks: ["Truth"],
+            similarArtists: [],
+            era: ["2010s"],
+            description: "Saxophonist",
+          }),
+        }
+      }
+      return {
+        model: request.model,
+        content: JSON.stringify({ songs: [], explanation: "Jazz", tags: ["jazz"] }),
+      }
+    })
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete } },
+      }
+    )
+
+    await playlistGenius.findTrendingInGenre("jazz")
+
+    const spans = playlistGenius.getTraceSpans()
+    const root = spans.find((span) => span.name === "findTrendingInGenre")!
+    expect(new Set(spans.map((span) => span.traceId))).toEqual(new Set([root.traceId]))
+    expect(spans.filter((span) => span.name === "llm.complete")).toHaveLength(3)
+    expect(spans.map((span) => span.name)).toEqual(
+      expect.arrayContaining([
+        "analyzeMusicTrend",
+        "findSongsByGenre",
+        "generatePlaylistSuggestions",
+      ])
+    )
+  })
+})
@@ -0,0 +1,226 @@
+import { PlaylistGenius } from "../index"
+import { BudgetExceededError } from "../errors"
+import { MeteredProvider } from "../providers/metered"
+import { UsageLedger } from "../services/usageLedger"
+import { LLMCompletionRequest, LogLevel } from "../types"
+
+const request = (model = "gpt-4o"): LLMCompletionRequest => ({
+  model,
+  messages: [{ role: "user", content: "x".repeat(400) }], // ~100 tokens
+})
+
+const artist = (name: string, similarArtists: string[] = []) => ({
+  name,
+  genres: ["rock"],
+  popularity: 80,
+  topTracks: ["Song"],
+  similarArtists,
+  era: ["2000s"],
+  description: `${name} description`,
+})
+
+describe("UsageLedger", () => {
+  test("prices calls by exact model name or longest prefix", () => {
+    const ledger = new UsageLedger()
+    ledger.record(request(), "gpt-4o", { promptTokens: 1000, completionTokens: 500 })
+    ledger.record(request(), "gpt-4o-mini-2024-07-18", {
+      promptTokens: 1000,
+      completionTokens: 0,
+    })
+
+    const report = ledger.getReport()
+    expect(report.byModel["gpt-4o"].costUsd).toBeCloseTo(0.0075)
+    expect(report.byModel["gpt-4o-mini-2024-07-18"].costUsd).toBeCloseTo(0.00015)
+    expect(report.total).toEqual(
+      expect.objectContaining({ calls: 2, promptTokens: 2000, completionTokens: 500 })
+    )
+  })
+
+  test("counts unknown models at zero cost and lists them", () => {
+    const ledger = new UsageLedger({ pricing: { "my-model": { input: 1, output: 1 } } })
+    ledger.record(request(), "llama3.1", { promptTokens: 10, completionTokens: 10 })
+    ledger.record(request(), "my-model", { promptTokens: 1_000_000, completionTokens: 0 })
+
+    const report = ledger.getReport()
+    expect(report.unpricedModels).toEqual(["llama3.1"])
+    expect(report.total.costUsd).toBe(1)
+  })
+
+  test("estimates tokens when the provider returns no usage", () => {
+    const ledger = new UsageLedger()
+    ledger.record(request(), "gpt-4o", undefined, "y".repeat(40))
+
+    expect(ledger.getReport().total).toEqual(
+      expect.objectContaining({ promptTokens: 100, completionTokens: 10 })
+    )
+  })
+
+  test("attributes nested calls to the outermost operation and its user", async () => {
+    const ledger = new UsageLedger()
+    const usage = { promptTokens: 10, completionTokens: 5 }
+
+    await ledger.runAs("alice", () =>
+      ledger.run({ operation: "outer" }, async () => {
+        ledger.record(request(), "gpt-4o", usage)
+        await ledger.run({ operation: "inner" }, async () =>
+          ledger.record(request(), "gpt-4o", usage)
+        )
+      })
+    )
+    ledger.record(request(), "gpt-4o", usage)
+
+    const report = ledger.getReport()
+    expect(Object.keys(report.byOperation)).toEqual(["outer", "direct"])
+    expect(report.byOperation.outer.calls).toBe(2)
+    expect(report.byUser).toEqual({ alice: expect.objectContaining({ calls: 2 }) })
+  })
+
+  test("fails fast when the per-request budget would be exceeded", async () => {
+    const ledger = new UsageLedger({ budgets: { perRequest: { tokens: 200 } } })
+
+    await ledger.run({ operation: "op" }, async () => {
+      ledger.check(request())()
+      ledger.record(request(), "gpt-4o", { promptTokens: 100, completionTokens: 50 })
+      expect(() => ledger.check(request())).toThrow(BudgetExceededError)
+    })
+
+    // une nouvelle requête repart de zéro
+    await ledger.run({ operation: "op" }, async () => ledger.check(request()))
+  })
+
+  test("reserves the estimate of calls still in flight", async () => {
+    const ledger = new UsageLedger({ budgets: { perRequest: { tokens: 1500 } } })
+    const complete = jest.fn(async (req: LLMCompletionRequest) => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return {
+        model: req.model,
+        content: "",
+        usage: { promptTokens: 100, completionTokens: 900 },
+      }
+    })
+    const provider = new MeteredProvider({ name: "mock", complete }, ledger)
+    const withAnswer = () => ({ ...request(), maxTokens: 900 }) // ~1000 tokens estimés
+
+    const results = await ledger.run({ operation: "fanOut" }, () =>
+      Promise.allSettled([1, 2, 3, 4].map(() => provider.complete(withAnswer())))
+    )
+
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "rejected",
+      "rejected",
+    ])
+    expect(complete).toHaveBeenCalledTimes(1)
+    const { total } = ledger.getReport()
+    expect(total.promptTokens + total.completionTokens).toBe(1000)
+  })
+
+  test("releases the reservation when the call fails", async () => {
+    const ledger = new UsageLedger({ budgets: { daily: { tokens: 150 } } })
+    const complete = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("network"))
+      .mockResolvedValueOnce({ model: "gpt-4o", content: "" })
+    const provider = new MeteredProvider({ name: "mock", complete }, ledger)
+
+    await expect(provider.complete(request())).rejects.toThrow("network")
+    await expect(provider.complete(request())).resolves.toMatchObject({ model: "gpt-4o" })
+  })
+
+  test("resets daily budgets at the next UTC day", () => {
+    let now = Date.parse("2024-05-01T23:00:00Z")
+    const ledger = new UsageLedger(
+      { budgets: { daily: { costUsd: 0.01 } } },
+      undefined,
+      () => now
+    )
+    ledger.record(request(), "gpt-4o", { promptTokens: 4000, completionTokens: 0 })
+
+    expect(() => ledger.check(request())).toThrow(
+      expect.objectContaining({ budget: "daily", metric: "costUsd", limit: 0.01 })
+    )
+
+    now = Date.parse("2024-05-02T01:00:00Z")
+    expect(() => ledger.check(request())).not.toThrow()
+    expect(ledger.getReport().today.calls).toBe(0)
+    expect(ledger.getReport().total.calls).toBe(1)
+  })
+
+  test("applies per-user daily budgets only to that user", async () => {
+    const ledger = new UsageLedger({ budgets: { perUserDaily: { tokens: 150 } } })
+    await ledger.runAs("alice", async () =>
+      ledger.record(request(), "gpt-4o", { promptTokens: 100, completionTokens: 0 })
+    )
+
+    await expect(
+      ledger.runAs("alice", async () => ledger.check(request()))
+    ).rejects.toThrow(BudgetExceededError)
+    await expect(
+      ledger.runAs("bob", async () => {
+        ledger.check(request())
+      })
+    ).resolves.toBeUndefined()
+  })
+
+  test("MeteredProvider does not call the provider once the budget is spent", async () => {
+    const ledger = new UsageLedger({ budgets: { daily: { tokens: 10 } } })
+    const complete = jest.fn()
+    const provider = new MeteredProvider({ name: "mock", complete }, ledger)
+
+    await expect(provider.complete(request())).rejects.toThrow(BudgetExceededError)
+    expect(complete).not.toHaveBeenCalled()
+  })
+})
+
+describe("PlaylistGenius usage", () => {
+  const createGenius = (usage = {}) => {
+    const complete = jest.fn(async (req: LLMCompletionRequest) => {
+      const prompt = req.messages[req.messages.length - 1].content
+      const name = prompt.match(/Analyze the artist "([^"]+)"/)?.[1] || "Unknown"
+      return {
+        model: req.model,
+        content: JSON.stringify(artist(name, name === "Blur" ? ["Oasis", "Pulp"] : [])),
+        usage: { promptTokens: 1000, completionTokens: 200 },
+      }
+    })
+    const playlistGenius = new PlaylistGenius(
+      "",
+      undefined,
+      { level: LogLevel.ERROR },
+      {
+        llm: { provider: { name: "mock", complete }, models: { analysis: "gpt-4o" } },
+        usage,
+      }
+    )
+    return { playlistGenius, complete }
+  }
+
+  test("aggregates the cost of findSimilarArtists per method and user", async () => {
+    const { playlistGenius } = createGenius()
+
+    await playlistGenius.runAsUser("alice", () =>
+      playlistGenius.findSimilarArtists("Blur")
+    )
+
+    const report = playlistGenius.getUsageReport()
+    expect(report.byOperation.findSimilarArtists).toEqual({
+      calls: 3,
+      promptTokens: 3000,
+      completionTokens: 600,
+      costUsd: expect.closeTo(0.0135, 6),
+    })
+    expect(report.byUser.alice.calls).toBe(3)
+  })
+
+  test("stops the fan-out with BudgetExceededError", async () => {
+    const { playlistGenius, complete } = createGenius({
+      budgets: { perRequest: { tokens: 1300 } },
+    })
+
+    await expect(playlistGenius.findSimilarArtists("Blur")).rejects.toThrow(
+      BudgetExceededError
+    )
+    expect(complete).toHaveBeenCalledTimes(1)
+  })
+})
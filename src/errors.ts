@@ -0,0 +1,226 @@
+import { SchemaIssue } from "./schemas"
+import { FanOutFailure } from "./types"
+
+export interface PlaylistGeniusErrorOptions {
+  operation?: string // opération en échec (méthode publique, requête Spotify...)
+  cause?: unknown // erreur d'origine
+  retryable?: boolean // un nouvel essai plus tard peut réussir
+}
+
+// Classe de base de toutes les erreurs levées par la librairie
+export class PlaylistGeniusError extends Error {
+  readonly operation?: string
+  readonly cause?: unknown
+  readonly retryable: boolean
+
+  constructor(message: string, options: PlaylistGeniusErrorOptions = {}) {
+    super(message)
+    this.name = "PlaylistGeniusError"
+    this.operation = options.operation
+    this.cause = options.cause
+    this.retryable = options.retryable ?? false
+  }
+}
+
+// Tokens absents, expirés ou refusés : l'utilisateur doit (re)passer par l'autorisation
+export class AuthRequiredError extends PlaylistGeniusError {
+  constructor(message: string, options: PlaylistGeniusErrorOptions = {}) {
+    super(message, { retryable: false, ...options })
+    this.name = "AuthRequiredError"
+  }
+}
+
+export class RateLimitedError extends PlaylistGeniusError {
+  constructor(
+    message: string,
+    public readonly retryAfterMs?: number,
+    options: PlaylistGeniusErrorOptions = {}
+  ) {
+    super(message, { ...options, retryable: true })
+    this.name = "RateLimitedError"
+  }
+}
+
+// Échec d'un service externe (LLM, Spotify) ; réessayable pour les 5xx et erreurs réseau
+export class ProviderError extends PlaylistGeniusError {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly statusCode?: number,
+    options: PlaylistGeniusErrorOptions = {}
+  ) {
+    super(message, {
+      retryable: statusCode === undefined || statusCode >= 500,
+      ...options,
+    })
+    this.name = "ProviderError"
+  }
+}
+
+// Entrée invalide, ou réponse d'un service qui ne respecte pas le format attendu
+export class ValidationError extends PlaylistGeniusError {
+  constructor(message: string, options: PlaylistGeniusErrorOptions = {}) {
+    super(message, options)
+    this.name = "ValidationError"
+  }
+}
+
+// Fonctionnalité utilisée sans la configuration nécessaire (identifiants Spotify...)
+export class NotConfiguredError extends PlaylistGeniusError {
+  constructor(message: string, options: PlaylistGeniusErrorOptions = {}) {
+    super(message, options)
+    this.name = "NotConfiguredError"
+  }
+}
+
+export class SchemaValidationError extends ValidationError {
+  constructor(
+    public readonly operation: string,
+    public readonly issues: SchemaIssue[],
+    public readonly attempts: number
+  ) {
+    super(
+      `Invalid AI response for ${operation} after ${attempts} attempt(s): ${issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}`,
+      { operation, retryable: true }
+    )
+    this.name = "SchemaValidationError"
+  }
+}
+
+export class UnrecordedCallError extends NotConfiguredError {
+  constructor(
+    public readonly channel: string,
+    public readonly request: unknown
+  ) {
+    super(
+      `No recorded ${channel} response for request: ${JSON.stringify(request).slice(0, 300)}`
+    )
+    this.name = "UnrecordedCallError"
+  }
+}
+
+export class InvalidAuthStateError extends AuthRequiredError {
+  constructor(message: string) {
+    super(message, { operation: "getTokens" })
+    this.name = "InvalidAuthStateError"
+  }
+}
+
+export class BudgetExceededError extends PlaylistGeniusError {
+  constructor(
+    public readonly budget: "perRequest" | "daily" | "perUserDaily",
+    public readonly metric: "costUsd" | "tokens",
+    public readonly limit: number,
+    public readonly spent: number
+  ) {
+    super(
+      `LLM ${budget} budget exceeded: ${metric} limit ${limit}, already spent ${spent}`,
+      {
+        retryable: budget !== "perRequest", // les budgets journaliers se renouvellent
+      }
+    )
+    this.name = "BudgetExceededError"
+  }
+}
+
+// Trop de sous-analyses en échec pour respecter le seuil minSuccess de l'appel
+export class InsufficientResultsError extends PlaylistGeniusError {
+  constructor(
+    operation: string,
+    public readonly succeeded: number,
+    public readonly attempted: number,
+    public readonly failures: FanOutFailure[]
+  ) {
+    super(`${operation}: only ${succeeded} of ${attempted} sub-analyses succeeded`, {
+      operation,
+      retryable: failures.some((failure) => failure.retryable),
+    })
+    this.name = "InsufficientResultsError"
+  }
+}
+
+// Appel annulé par son AbortSignal ou interrompu par son délai maximal
+export class CancelledError extends PlaylistGeniusError {
+  constructor(
+    message: string,
+    public readonly reason: "aborted" | "timeout",
+    options: PlaylistGeniusErrorOptions = {}
+  ) {
+    super(message, { ...options, retryable: reason === "timeout" })
+    this.name = "CancelledError"
+  }
+}
+
+// Erreurs qu'aucun repli ne corrige (authentification, annulation, budget, configuration) :
+// elles remontent toujours jusqu'à l'appelant
+export function isUnrecoverableError(error: unknown): boolean {
+  return (
+    error instanceof AuthRequiredError ||
+    error instanceof CancelledError ||
+    error instanceof BudgetExceededError ||
+    error instanceof NotConfiguredError
+  )
+}
+
+// Convertit une erreur de client HTTP (spotify-web-api-node, SDK OpenAI...) en erreur typée
+export function toPlaylistGeniusError(
+  error: unknown,
+  context: { operation: string; provider: string; message?: string }
+): PlaylistGeniusError {
+  if (error instanceof PlaylistGeniusError) return error
+
+  const statusCode = statusCodeOf(error)
+  const detail = readProperty(error, "message")
+  const message =
+    context.message ||
+    `${context.provider} ${context.operation} failed: ${
+      typeof detail === "string" && detail ? detail : String(error)
+    }`
+  const options = { operation: context.operation, cause: error }
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new AuthRequiredError(message, options)
+  }
+  if (statusCode === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(headerOf(error, "retry-after")),
+      options
+    )
+  }
+  return new ProviderError(message, context.provider, statusCode, options)
+}
+
+// Statut HTTP porté par une erreur de client (statusCode pour Spotify, status ailleurs)
+export function statusCodeOf(error: unknown): number | undefined {
+  const status = readProperty(error, "statusCode") ?? readProperty(error, "status")
+  return typeof status === "number" ? status : undefined
+}
+
+function readProperty(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined
+}
+
+function hasHeaderGetter(
+  headers: unknown
+): headers is { get(name: string): string | null | undefined } {
+  return typeof readProperty(headers, "get") === "function"
+}
+
+// En-tête de la réponse en échec (Headers de fetch ou objet simple)
+export function headerOf(error: unknown, name: string): unknown {
+  const headers = readProperty(error, "headers")
+  return hasHeaderGetter(headers) ? headers.get(name) : readProperty(headers, name)
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+  const seconds = Number(value)
+  return value !== undefined && value !== null && Number.isFinite(seconds)
+    ? seconds * 1000
+    : undefined
+}
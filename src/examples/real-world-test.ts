@@ -64,7 +64,7 @@ async function testPlaylistGenius() {
       tempo: "fast",
     })
     console.log(`Time taken: ${Date.now() - start}ms`)
-    console.log("Cache stats:", playlistGen.getCacheStats())
+    console.log("Cache stats:", await playlistGen.getCacheStats())
     console.log("\n-------------------\n")
   } catch (error) {
     console.error("Error during testing:", error)
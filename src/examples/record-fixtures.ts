@@ -0,0 +1,62 @@
+import { PlaylistGenius } from "../index"
+import dotenv from "dotenv"
+import { existsSync, readFileSync } from "fs"
+
+dotenv.config()
+
+// Enregistre les appels réels OpenAI/Spotify pour les rejouer ensuite hors ligne :
+// new PlaylistGenius("", credentials, undefined, { fixtures: { mode: "replay", path } })
+async function recordFixtures() {
+  if (!process.env.OPENAI_API_KEY) {
+    console.error("Please set OPENAI_API_KEY in your .env file")
+    process.exit(1)
+  }
+
+  const fixturesPath = process.env.FIXTURES_PATH || "playlist-genius.fixtures.json"
+  const tokenPath = ".spotify-tokens.json"
+  const hasSpotify =
+    !!process.env.SPOTIFY_CLIENT_ID &&
+    !!process.env.SPOTIFY_CLIENT_SECRET &&
+    existsSync(tokenPath)
+
+  const playlistGenius = new PlaylistGenius(
+    process.env.OPENAI_API_KEY,
+    hasSpotify
+      ? {
+          clientId: process.env.SPOTIFY_CLIENT_ID!,
+          clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
+          redirectUri: "http://localhost:3000/callback",
+        }
+      : undefined,
+    undefined,
+    { fixtures: { mode: "record", path: fixturesPath } }
+  )
+
+  try {
+    console.log(`🎙️ Recording fixtures to ${fixturesPath}...\n`)
+
+    if (hasSpotify) {
+      const session = playlistGenius.getSpotifySession()
+      playlistGenius.setSpotifyTokens(
+        session,
+        JSON.parse(readFileSync(tokenPath, "utf8"))
+      )
+      await playlistGenius.refreshSpotifyTokens(session)
+      await playlistGenius.analyzeUserTaste(session, "medium_term")
+    }
+
+    await playlistGenius.generateEnhancedPlaylist({
+      genres: ["rock"],
+      mood: "energetic",
+      tempo: "fast",
+    })
+    await playlistGenius.findTrendingInGenre("rock")
+
+    console.log("✅ Fixtures recorded")
+  } catch (error) {
+    console.error("❌ Error while recording fixtures:", error)
+    process.exit(1)
+  }
+}
+
+recordFixtures()
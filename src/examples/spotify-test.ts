@@ -1,7 +1,7 @@
-import { PlaylistGenius } from "../index"
+import { FileTokenStore, LogLevel, PlaylistGenius } from "../index"
 import dotenv from "dotenv"
 import express from "express"
-import { writeFileSync, readFileSync, existsSync } from "fs"
+import { writeFileSync } from "fs"
 import { CacheService } from "../services/cache"
 
 dotenv.config()
@@ -9,6 +9,7 @@ dotenv.config()
 const PORT = 3000
 
 async function runTests(playlistGenius: PlaylistGenius) {
+  const session = playlistGenius.getSpotifySession()
   try {
     console.log("🎵 Starting test sequence...\n")
 
@@ -45,7 +46,7 @@ async function runTests(playlistGenius: PlaylistGenius) {
 
       // Test 2: Analyse des goûts utilisateur
       console.log("🎧 Test 2: Analyzing user taste...")
-      const userTaste = await playlistGenius.analyzeUserTaste("medium_term")
+      const userTaste = await playlistGenius.analyzeUserTaste(session, "medium_term")
 
       console.log("✓ User taste analysis completed")
       console.log("Analysis results:")
@@ -57,7 +58,7 @@ async function runTests(playlistGenius: PlaylistGenius) {
       // Test 3: Génération de playlist personnalisée
       console.log("🎼 Test 3: Generating personalized playlist...")
       const personalizedPlaylist =
-        await playlistGenius.generatePersonalizedPlaylist("user-id")
+        await playlistGenius.generatePersonalizedPlaylist(session)
 
       console.log("✓ Personalized playlist generation completed")
       console.log(
@@ -71,7 +72,7 @@ async function runTests(playlistGenius: PlaylistGenius) {
       if (enhancedPlaylist.spotifyTracks && enhancedPlaylist.spotifyTracks.length > 0) {
         console.log("💾 Test 4: Saving playlist to Spotify...")
         const playlistId = await playlistGenius.saveToSpotify(
-          "user-id",
+          session,
           "PlaylistGenius Test Playlist",
           enhancedPlaylist.spotifyTracks
         )
@@ -105,45 +106,47 @@ async function runTests(playlistGenius: PlaylistGenius) {
 }
 
 async function startAuthFlow() {
+  // Sans SPOTIFY_CLIENT_SECRET, le flux PKCE est utilisé
   if (
     !process.env.OPENAI_API_KEY ||
     !process.env.SPOTIFY_CLIENT_ID ||
-    !process.env.SPOTIFY_CLIENT_SECRET
+    !process.env.SPOTIFY_TOKEN_KEY
   ) {
     console.error(
-      "Please set OPENAI_API_KEY, SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET in your .env file"
+      "Please set OPENAI_API_KEY, SPOTIFY_CLIENT_ID and SPOTIFY_TOKEN_KEY in your .env file"
     )
     process.exit(1)
   }
 
-  const playlistGenius = new PlaylistGenius(process.env.OPENAI_API_KEY, {
-    clientId: process.env.SPOTIFY_CLIENT_ID,
-    clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-    redirectUri: `http://localhost:${PORT}/callback`,
+  // Tokens chiffrés sur disque, rafraîchis et réenregistrés automatiquement
+  const tokenStore = new FileTokenStore(".spotify-tokens.enc.json", {
+    encryptionKey: process.env.SPOTIFY_TOKEN_KEY,
   })
 
+  const playlistGenius = new PlaylistGenius(
+    process.env.OPENAI_API_KEY,
+    {
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+      redirectUri: `http://localhost:${PORT}/callback`,
+    },
+    { level: LogLevel.INFO, consoleOutput: true },
+    { spotifyAuth: { tokenStore } }
+  )
+
+  const session = playlistGenius.getSpotifySession()
+
   // Vérifier les tokens existants
-  const tokenPath = ".spotify-tokens.json"
-  if (existsSync(tokenPath)) {
-    try {
-      const tokens = JSON.parse(readFileSync(tokenPath, "utf8"))
+  try {
+    if (await playlistGenius.restoreSpotifySession(session)) {
       console.log("Found existing tokens, attempting to use them...")
-
-      playlistGenius.setSpotifyTokens(tokens)
-      try {
-        // Tenter de rafraîchir le token avant les tests
-        const refreshedTokens = await playlistGenius.refreshSpotifyTokens()
-        console.log("Tokens refreshed successfully")
-        // Sauvegarder les nouveaux tokens
-        writeFileSync(tokenPath, JSON.stringify(refreshedTokens))
-        await runTests(playlistGenius)
-        return
-      } catch (refreshError) {
-        console.log("Failed to refresh tokens, starting new authentication...")
-      }
-    } catch (error) {
-      console.log("Stored tokens are invalid, starting new authentication...")
+      await playlistGenius.refreshSpotifyTokens(session)
+      console.log("Tokens refreshed successfully")
+      await runTests(playlistGenius)
+      return
     }
+  } catch (error) {
+    console.log("Stored tokens are invalid, starting new authentication...")
   }
 
   // Configurer le serveur Express pour l'authentification
@@ -151,30 +154,22 @@ async function startAuthFlow() {
   let server: ReturnType<typeof app.listen>
 
   app.get("/start", (req, res) => {
-    const authUrl = playlistGenius.getSpotifyAuthUrl()
+    const authUrl = playlistGenius.getSpotifyAuthUrl(session)
     res.redirect(authUrl)
   })
 
   app.get("/callback", async (req, res) => {
-    const { code } = req.query
+    const { code, state } = req.query
 
-    if (!code || typeof code !== "string") {
-      res.send("Error: No code provided")
+    if (!code || typeof code !== "string" || typeof state !== "string") {
+      res.send("Error: No code or state provided")
       return
     }
 
     try {
       console.log("📝 Processing authentication callback...")
-      const tokens = await playlistGenius.handleSpotifyAuth(code)
-      console.log("✓ Authentication successful - tokens received")
-
-      const tokenData = {
-        ...tokens,
-        timestamp: Date.now(),
-      }
-
-      writeFileSync(tokenPath, JSON.stringify(tokenData))
-      console.log("✓ Tokens saved to file")
+      await playlistGenius.handleSpotifyAuth(session, code, state)
+      console.log("✓ Authentication successful - tokens received and saved")
 
       res.send("Authentication successful! You can close this window.")
 
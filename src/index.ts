@@ -1,9 +1,35 @@
-import { LoggerConfig } from "./types/index"
 import { LoggerService, ContextLogger } from "./services/logger"
 import { OpenAIService } from "./services/openai"
 import { MusicAnalysisService } from "./services/musicAnalysis"
-import { SpotifyService } from "./services/spotify"
+import {
+  DEFAULT_SESSION_ID,
+  SpotifySession,
+  SpotifySessionRegistry,
+} from "./services/spotifySessions"
 import { CacheService } from "./services/cache"
+import { UsageLedger } from "./services/usageLedger"
+import { Tracer } from "./services/tracing"
+import { FixtureStore } from "./services/fixtureStore"
+import { SongVerifier } from "./services/songVerifier"
+import { RefinementSession } from "./services/refinementSession"
+import { LocalCatalogSource, SpotifyCatalogSource } from "./services/catalogSources"
+import { totalDuration } from "./utils/playlist"
+import { withSpotifyFixtures } from "./services/spotifyFixtures"
+import { RecordingProvider, ReplayProvider } from "./providers/replay"
+import { MeteredProvider } from "./providers/metered"
+import { TracedProvider } from "./providers/traced"
+import { LimitedProvider } from "./providers/limited"
+import { ConcurrencyLimiter } from "./utils/concurrency"
+import { withCancellation } from "./utils/abort"
+import { AsyncQueue } from "./utils/asyncQueue"
+import {
+  InsufficientResultsError,
+  NotConfiguredError,
+  PlaylistGeniusError,
+  isUnrecoverableError,
+} from "./errors"
+import { AsyncLocalStorage } from "async_hooks"
+import SpotifyWebApi from "spotify-web-api-node"
 import {
   PlaylistCriteria,
   GenerationResult,
@@ -14,44 +40,176 @@ import {
   SpotifyCredentials,
   SpotifyAuthTokens,
   LogLevel,
+  LLMOptions,
+  LLMProvider,
+  PlaylistGeniusOptions,
+  CatalogSource,
+  RejectedSong,
+  VerificationOptions,
+  CacheStats,
+  CallOptions,
+  ErrorMode,
+  FanOutFailure,
+  FanOutResult,
+  CacheEntryInfo,
+  CacheKey,
+  UsageReport,
+  TraceSpan,
+  LoggerConfig,
+  PlaylistStreamEvent,
+  StreamOptions,
 } from "./types"
+import {
+  OpenAIProvider,
+  createLLMProvider,
+  isLLMProvider,
+  resolveModels,
+} from "./providers"
 import { Context } from "vm"
 
+export * from "./types"
+export {
+  OpenAIProvider,
+  AnthropicProvider,
+  FixtureProvider,
+  createLLMProvider,
+} from "./providers"
+export {
+  PlaylistGeniusError,
+  AuthRequiredError,
+  RateLimitedError,
+  ProviderError,
+  ValidationError,
+  NotConfiguredError,
+  InsufficientResultsError,
+  CancelledError,
+  UnrecordedCallError,
+  SchemaValidationError,
+  InvalidAuthStateError,
+  BudgetExceededError,
+  isUnrecoverableError,
+} from "./errors"
+export { LocalCatalogSource, SpotifyCatalogSource } from "./services/catalogSources"
+export { SpotifyRequestScheduler } from "./services/spotifyScheduler"
+export { MemoryTokenStore, FileTokenStore } from "./services/tokenStore"
+export { MemoryCacheStore, FileCacheStore, RedisCacheStore } from "./services/cacheStores"
+export { DEFAULT_CACHE_POLICIES, DEFAULT_CACHE_KEY_SCHEMAS } from "./services/cache"
+export { SpotifySession } from "./services/spotifySessions"
+export { RefinementSession } from "./services/refinementSession"
+export { DEFAULT_MODEL_PRICING } from "./services/usageLedger"
+export { DEFAULT_REDACTION_RULES } from "./services/redaction"
+
 export class PlaylistGenius {
   private openaiService: OpenAIService
   private musicAnalysisService: MusicAnalysisService
   private cacheService: CacheService
-  private spotifyService?: SpotifyService
+  private usageLedger: UsageLedger
+  private tracer: Tracer
+  private spotifySessions?: SpotifySessionRegistry
+  private songVerifier?: SongVerifier
+  private verificationOptions?: VerificationOptions
   private logger: ContextLogger
+  private errorMode: ErrorMode
+  private timeoutMs?: number
+  // Mode d'erreur et signal d'annulation de l'appel public en cours
+  private calls = new AsyncLocalStorage<{ errorMode: ErrorMode; signal?: AbortSignal }>()
+  // Calculs findSimilarArtists en cours, partagés avec leurs échecs par les appels concurrents
+  private similarArtistsInFlight = new Map<string, Promise<FanOutResult<Artist[]>>>()
 
   constructor(
     private apiKey: string,
     spotifyCredentials?: SpotifyCredentials,
-    LoggerConfig?: { level: LogLevel; filename?: string }
+    loggerConfig?: LoggerConfig,
+    options: PlaylistGeniusOptions = {}
   ) {
-    const logger = new LoggerService({
-      level: LoggerConfig?.level || LogLevel.INFO,
-      filename: LoggerConfig?.filename,
-      consoleOutput: true,
-    })
+    this.tracer = new Tracer(options.tracing)
+    this.errorMode = options.errorMode || "degrade"
+    this.timeoutMs = options.timeoutMs
+    const currentSignal = () => this.calls.getStore()?.signal
+    // Silencieux par défaut : rien n'est écrit sans options.logger, filename ou consoleOutput
+    const logger = new LoggerService(
+      {
+        level: loggerConfig?.level || LogLevel.INFO,
+        filename: loggerConfig?.filename,
+        consoleOutput: loggerConfig?.consoleOutput ?? false,
+        redaction: loggerConfig?.redaction,
+      },
+      this.tracer,
+      options.logger
+    )
 
     this.logger = logger.createContextLogger("PlaylistGenius")
 
     this.logger.info("Initializing PlaylistGenius")
     try {
-      this.openaiService = new OpenAIService(apiKey)
-      this.musicAnalysisService = new MusicAnalysisService(apiKey)
-      this.cacheService = new CacheService()
+      const fixtureStore =
+        options.fixtures && new FixtureStore(options.fixtures.path, options.fixtures.mode)
+      this.usageLedger = new UsageLedger(
+        options.usage,
+        logger.createContextLogger("UsageLedger")
+      )
+      // La file est en tête de chaîne : budget et span ne comptent que l'appel effectif
+      const provider = new LimitedProvider(
+        new TracedProvider(
+          new MeteredProvider(
+            this.withFixtures(this.createProvider(options.llm), fixtureStore),
+            this.usageLedger
+          ),
+          this.tracer
+        ),
+        new ConcurrencyLimiter(options.concurrency?.llm ?? 4),
+        currentSignal
+      )
+      const models = resolveModels(provider, options.llm?.models)
+      this.logger.debug("Using LLM provider", { provider: provider.name, models })
+
+      this.openaiService = new OpenAIService(
+        provider,
+        { models },
+        logger.createContextLogger("OpenAIService")
+      )
+      this.musicAnalysisService = new MusicAnalysisService(provider, { models })
+      this.cacheService = new CacheService(
+        options.cache,
+        logger.createContextLogger("CacheService")
+      )
+      this.cacheService.setKeyVersions({
+        ...this.openaiService.cacheVersions(),
+        ...this.musicAnalysisService.cacheVersions(),
+      })
 
       if (spotifyCredentials) {
         this.logger.debug("Initializing Spotify service", {
-          clientId: spotifyCredentials.clientId,
           redirectUri: spotifyCredentials.redirectUri,
         })
-        this.spotifyService = new SpotifyService(
+        this.spotifySessions = new SpotifySessionRegistry(
           spotifyCredentials,
           this.cacheService,
-          logger
+          logger,
+          {
+            createClient: () => {
+              const client = new SpotifyWebApi({
+                clientId: spotifyCredentials.clientId,
+                clientSecret: spotifyCredentials.clientSecret,
+                redirectUri: spotifyCredentials.redirectUri,
+              })
+              return fixtureStore ? withSpotifyFixtures(client, fixtureStore) : client
+            },
+            auth: options.spotifyAuth,
+            tracer: this.tracer,
+            scheduler: {
+              limiter: new ConcurrencyLimiter(options.concurrency?.spotify ?? 8),
+              signal: currentSignal,
+            },
+          }
+        )
+      }
+
+      if (options.verification) {
+        this.verificationOptions = options.verification
+        this.songVerifier = new SongVerifier(
+          this.createCatalogSource(options.verification.catalog),
+          { minConfidence: options.verification.minConfidence }
         )
       }
 
@@ -62,501 +220,882 @@ export class PlaylistGenius {
     }
   }
 
-  async generatePlaylistSuggestions(
-    criteria: PlaylistCriteria
-  ): Promise<GenerationResult> {
-    this.logger.info("Generating playlist suggestions", { criteria })
-
-    try {
-      const cached = this.cacheService.get<GenerationResult>({
-        type: "playlist",
-        criteria,
-      })
+  private createProvider(llmOptions?: LLMOptions): LLMProvider {
+    const provider = llmOptions?.provider
+    if (!provider) {
+      return new OpenAIProvider({ apiKey: this.apiKey })
+    }
+    return isLLMProvider(provider) ? provider : createLLMProvider(provider)
+  }
 
-      if (cached) {
-        this.logger.debug("Returning cached playlist suggestions", {
-          criteria,
-          songsCount: cached.songs.length,
-        })
-        return cached
+  private createCatalogSource(catalog: VerificationOptions["catalog"]): CatalogSource {
+    if (catalog === "spotify") {
+      if (!this.spotifySessions) {
+        throw new NotConfiguredError("Spotify verification requires Spotify credentials")
       }
+      // Les recherches de catalogue passent par la session par défaut
+      return new SpotifyCatalogSource(this.spotifySessions.get().service)
+    }
+    return "file" in catalog ? new LocalCatalogSource(catalog.file) : catalog
+  }
 
-      this.logger.debug("Fetching new playlist suggestions")
-
-      const result = await this.openaiService.getPlaylistSuggestions(criteria)
+  private withFixtures(provider: LLMProvider, store?: FixtureStore): LLMProvider {
+    if (!store) return provider
+    this.logger.info("Using LLM fixtures", { mode: store.mode })
+    return store.mode === "replay"
+      ? new ReplayProvider(store, provider.defaultModels)
+      : new RecordingProvider(provider, store)
+  }
 
-      this.logger.debug("Caching playlist suggestions", {
-        criteria,
-        songsCount: result.songs.length,
-      })
-      this.cacheService.set(
-        {
-          type: "playlist",
-          criteria,
-        },
-        result
+  // Chaque méthode publique ouvre un span (une trace si elle est appelée directement),
+  // lui impute la consommation LLM et fixe le mode d'erreur et le signal d'annulation
+  // hérités par les appels imbriqués
+  private track<T>(
+    scope: { operation: string; userId?: string },
+    fn: () => Promise<T>,
+    options: CallOptions = {}
+  ): Promise<T> {
+    const parent = this.calls.getStore()
+    const errorMode = options.errorMode || parent?.errorMode || this.errorMode
+    // Le délai par défaut ne s'applique qu'à l'appel de plus haut niveau
+    const timeoutMs = options.timeoutMs ?? (parent ? undefined : this.timeoutMs)
+
+    return this.tracer.run(scope.operation, () =>
+      this.usageLedger.run(scope, () =>
+        withCancellation(
+          scope.operation,
+          { signals: [parent?.signal, options.signal], timeoutMs },
+          (signal) => this.calls.run({ errorMode, signal }, fn)
+        )
       )
+    )
+  }
 
-      return result
-    } catch (error) {
-      this.logger.error("Error generating playlist", error, { criteria })
-      throw new Error("Failed to generate playlist suggestions")
+  // Budget, authentification et configuration ne se corrigent pas en ignorant l'élément
+  // en échec : ces erreurs sont levées même en mode "degrade"
+  private shouldDegrade(error: unknown, options: CallOptions = {}): boolean {
+    if (isUnrecoverableError(error) || error instanceof InsufficientResultsError) {
+      return false
     }
+    const errorMode =
+      options.errorMode || this.calls.getStore()?.errorMode || this.errorMode
+    return errorMode === "degrade"
   }
 
-  async analyzeSong(title: string, artist: string): Promise<SongAnalysis> {
-    this.logger.info("Analyzing song", { title, artist })
-
-    try {
-      const cached = this.cacheService.get<SongAnalysis>({
-        type: "song_analysis",
-        criteria: { title, artist },
+  // Lance une sous-analyse par élément ; en mode "degrade", les échecs sont ajoutés
+  // à failures au lieu d'interrompre l'appel (null : élément ignoré sans erreur)
+  private async fanOut<I, T>(
+    items: I[],
+    describe: (item: I) => string,
+    run: (item: I) => Promise<T | null>,
+    failures: FanOutFailure[]
+  ): Promise<T[]> {
+    const results: (T | null)[] = await Promise.all(
+      items.map(async (item) => {
+        try {
+          return await run(item)
+        } catch (error) {
+          if (!this.shouldDegrade(error)) throw error
+          const failure = this.toFailure(describe(item), error)
+          this.logger.warn("Sub-analysis failed", failure)
+          failures.push(failure)
+          return null
+        }
       })
+    )
+    return results.filter((result): result is T => result !== null)
+  }
 
-      if (cached) {
-        this.logger.debug("Returning cached song analysis", { title, artist })
-        return cached
-      }
-
-      this.logger.debug("Performing new song analysis")
-      const analysis = await this.musicAnalysisService.analyzeSong(title, artist)
+  private toFailure(input: string, error: unknown): FanOutFailure {
+    return {
+      input,
+      errorType: (error as Error)?.name || "Error",
+      message: (error as Error)?.message || String(error),
+      retryable: error instanceof PlaylistGeniusError && error.retryable,
+    }
+  }
 
-      this.logger.debug("Caching song analysis", { title, artist })
-      this.cacheService.set(
-        {
-          type: "song_analysis",
-          criteria: { title, artist },
-        },
-        analysis
-      )
+  // Vérifié avant d'exploiter les résultats : un appel sous le seuil échoue en entier
+  private checkMinSuccess(
+    operation: string,
+    attempted: number,
+    failures: FanOutFailure[],
+    options: CallOptions = {}
+  ): void {
+    const succeeded = attempted - failures.length
+    if (failures.length && succeeded < (options.minSuccess ?? 0) * attempted) {
+      throw new InsufficientResultsError(operation, succeeded, attempted, failures)
+    }
+  }
 
-      return analysis
-    } catch (error) {
-      this.logger.error("Error analyzing song", error, { title, artist })
-      throw error
+  private partialResult<T>(
+    data: T,
+    attempted: number,
+    failures: FanOutFailure[],
+    warnings: string[] = []
+  ): FanOutResult<T> {
+    if (failures.length) {
+      warnings.push(`${failures.length} of ${attempted} sub-analyses failed`)
     }
+    return { data, warnings, failures }
   }
 
-  async findSimilarSongs(song: {
-    title: string
-    artist: string
-  }): Promise<SongAnalysis[]> {
-    this.logger.info("Finding similar songs", song)
+  async generatePlaylistSuggestions(
+    criteria: PlaylistCriteria,
+    options?: CallOptions
+  ): Promise<GenerationResult> {
+    return this.track(
+      { operation: "generatePlaylistSuggestions" },
+      async () => {
+        this.logger.info("Generating playlist suggestions", { criteria })
 
-    try {
-      const songAnalysis = await this.analyzeSong(song.title, song.artist)
+        try {
+          const result = await this.cacheService.getOrCompute(
+            { type: "playlist", criteria },
+            async () => {
+              this.logger.debug("Fetching new playlist suggestions")
+              const suggestions =
+                await this.openaiService.getPlaylistSuggestions(criteria)
+              return this.songVerifier
+                ? this.verifySuggestions(criteria, suggestions, this.songVerifier)
+                : suggestions
+            }
+          )
 
-      if (!songAnalysis?.similarSongs) {
-        this.logger.warn("No similar songs found", song)
-        return []
-      }
+          return result
+        } catch (error) {
+          this.logger.error("Error generating playlist", error, { criteria })
+          if (error instanceof PlaylistGeniusError) throw error
+          throw new PlaylistGeniusError("Failed to generate playlist suggestions", {
+            operation: "generatePlaylistSuggestions",
+            cause: error,
+          })
+        }
+      },
+      options
+    )
+  }
 
-      this.logger.debug("Analyzing similar songs", {
-        count: songAnalysis.similarSongs.length,
-      })
+  // Émet chaque chanson dès qu'elle est générée puis, si Spotify est configuré, le titre
+  // correspondant ; "done" termine le flux. Ni cache ni vérification catalogue.
+  // Quitter la boucle for await annule la génération et les recherches en cours
+  async *streamPlaylistSuggestions(
+    criteria: PlaylistCriteria,
+    session?: SpotifySession,
+    options: StreamOptions = {}
+  ): AsyncGenerator<PlaylistStreamEvent> {
+    const queue = new AsyncQueue<PlaylistStreamEvent>()
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort(options.signal?.reason)
+    if (options.signal?.aborted) forwardAbort()
+    else options.signal?.addEventListener("abort", forwardAbort, { once: true })
+
+    const producer = this.track(
+      { operation: "streamPlaylistSuggestions", userId: session?.userId },
+      () => this.produceStreamEvents(criteria, session, options, queue),
+      { ...options, signal: controller.signal }
+    ).then(
+      () => queue.close(),
+      (error) => queue.fail(error)
+    )
 
-      const similarSongsAnalyses = await Promise.all(
-        songAnalysis.similarSongs.map(async (songString) => {
-          try {
-            const [title, artist] = songString.split(" by ").map((s) => s.trim())
-            if (!title || !artist) {
-              this.logger.warn("Invalid song format", { songString })
-              return null
-            }
-            return await this.analyzeSong(title, artist)
-          } catch (error) {
-            this.logger.error("Error analyzing similar song", error, { songString })
-            return null
-          }
-        })
-      )
+    try {
+      yield* queue
+    } finally {
+      options.signal?.removeEventListener("abort", forwardAbort)
+      controller.abort()
+      await producer
+    }
+  }
 
-      const validAnalyses = similarSongsAnalyses.filter(
-        (analysis): analysis is SongAnalysis => analysis !== null
-      )
+  private async produceStreamEvents(
+    criteria: PlaylistCriteria,
+    session: SpotifySession | undefined,
+    options: StreamOptions,
+    queue: AsyncQueue<PlaylistStreamEvent>
+  ): Promise<void> {
+    this.logger.info("Streaming playlist suggestions", { criteria })
+    const signal = this.calls.getStore()?.signal
+    const spotify =
+      options.resolveTracks !== false && this.spotifySessions
+        ? session || this.spotifySessions.get()
+        : undefined
+    if (options.resolveTracks && !spotify) {
+      this.logger.warn("Spotify service not enabled, streaming songs only")
+    }
 
-      this.logger.info("Similar songs analysis completed", {
-        totalFound: validAnalyses.length,
-      })
+    // Les recherches Spotify se font pendant la génération ; la première erreur
+    // non ignorée est relevée au prochain évènement
+    const resolutions: Promise<void>[] = []
+    let failure: unknown
+    let result: GenerationResult | undefined
+
+    for await (const event of this.openaiService.streamPlaylistSuggestions(criteria)) {
+      if (signal?.aborted) return
+      if (failure) throw failure
+      if (event.type === "done") {
+        result = event.result
+        continue
+      }
+      queue.push(event)
+      if (event.type === "song" && spotify) {
+        resolutions.push(
+          this.resolveStreamedSong(spotify, event.index, event.song, queue).catch(
+            (error) => {
+              failure = failure || error
+            }
+          )
+        )
+      }
+    }
 
-      return validAnalyses
+    await Promise.all(resolutions)
+    if (failure) throw failure
+    if (result) queue.push({ type: "done", result })
+  }
+
+  private async resolveStreamedSong(
+    session: SpotifySession,
+    index: number,
+    song: Song,
+    queue: AsyncQueue<PlaylistStreamEvent>
+  ): Promise<void> {
+    let track: SpotifyApi.TrackObjectFull | null = null
+    try {
+      const match = await session.service.matchTrack(song)
+      track = match.track
     } catch (error) {
-      this.logger.error("Error finding similar songs", error, song)
-      return []
+      if (!this.shouldDegrade(error)) throw error
+      this.logger.error(`Error searching for track: ${song.title}`, error)
     }
+    queue.push({ type: "track", index, song, track })
   }
 
-  async findSimilarArtists(artist: string): Promise<Artist[]> {
-    this.logger.info("Finding similar artists", { artist })
+  // Session d'affinage en langage naturel ; sans playlist initiale, la première
+  // version est générée à partir des critères
+  async startRefinement(
+    criteria: PlaylistCriteria,
+    initial?: GenerationResult,
+    options?: CallOptions
+  ): Promise<RefinementSession> {
+    const playlist =
+      initial || (await this.generatePlaylistSuggestions(criteria, options))
+    return new RefinementSession(criteria, playlist, (request, callOptions) =>
+      this.track(
+        { operation: "refinePlaylist" },
+        async () => {
+          this.logger.info("Refining playlist", { instruction: request.instruction })
+          return this.openaiService.refinePlaylist(request)
+        },
+        callOptions
+      )
+    )
+  }
+
+  // Vérifie chaque chanson dans le catalogue et remplace celles introuvables
+  private async verifySuggestions(
+    criteria: PlaylistCriteria,
+    result: GenerationResult,
+    verifier: SongVerifier
+  ): Promise<GenerationResult> {
+    const maxRounds = this.verificationOptions?.maxRounds ?? 2
+    const rejected = [...(result.rejected || [])]
 
     try {
-      const cached = this.cacheService.get<Artist[]>({
-        type: "similar_artists",
-        criteria: { artist },
-      })
+      let { verified, unresolved } = await verifier.verify(result.songs)
 
-      if (cached) {
-        this.logger.debug("Returning cached similar artists", {
-          artist,
-          count: cached.length,
+      for (let round = 0; round < maxRounds && unresolved.length; round++) {
+        this.logger.debug("Replacing unverified songs", {
+          round: round + 1,
+          unresolved: unresolved.map((song) => `${song.title} by ${song.artist}`),
         })
-        return cached
-      }
+        rejected.push(...unresolved.map((song) => this.unverifiedRejection(song)))
 
-      const artistAnalysis = await this.musicAnalysisService.analyzeArtist(artist)
+        const replacements = await this.openaiService.getPlaylistSuggestions(
+          { ...criteria, duration: undefined, songCount: unresolved.length },
+          { exclude: [...verified, ...rejected.map((r) => r.song)] }
+        )
+        rejected.push(...(replacements.rejected || []))
 
-      this.logger.debug("Analyzing similar artists", {
-        count: artistAnalysis.similarArtists.length,
-      })
+        const outcome = await verifier.verify(replacements.songs)
+        verified = [...verified, ...outcome.verified]
+        unresolved = outcome.unresolved
+      }
 
-      const similarArtists = await Promise.all(
-        artistAnalysis.similarArtists.map(async (name) => {
-          try {
-            return await this.musicAnalysisService.analyzeArtist(name)
-          } catch (error) {
-            this.logger.error("Error analyzing similar artist", error, { name })
-            return null
-          }
-        })
-      )
+      rejected.push(...unresolved.map((song) => this.unverifiedRejection(song)))
 
-      const validArtists = similarArtists.filter((a): a is Artist => a !== null)
+      this.logger.debug("Playlist verification completed", {
+        verified: verified.length,
+        rejected: rejected.length,
+      })
 
-      this.logger.debug("Caching similar artists results", {
-        artist,
-        count: validArtists.length,
+      return {
+        ...result,
+        songs: verified,
+        totalDuration: totalDuration(verified),
+        rejected,
+        verified: true,
+      }
+    } catch (error) {
+      if (!this.shouldDegrade(error)) throw error
+      this.logger.warn("Song verification unavailable, returning unverified songs", {
+        error: (error as Error)?.message,
       })
+      return { ...result, verified: false }
+    }
+  }
 
-      this.cacheService.set(
+  private unverifiedRejection(song: Song): RejectedSong {
+    return {
+      song,
+      reasons: [
         {
-          type: "similar_artists",
-          criteria: { artist },
+          code: "unverified",
+          message: `No catalog match found (confidence ${song.verification?.confidence ?? 0})`,
         },
-        validArtists
-      )
-
-      return validArtists
-    } catch (error) {
-      this.logger.error("Error finding similar artists", error, { artist })
-      throw error
+      ],
     }
   }
 
-  async findPopularSongs(): Promise<GenerationResult> {
-    this.logger.info("Finding popular songs")
+  async analyzeSong(
+    title: string,
+    artist: string,
+    options?: CallOptions
+  ): Promise<SongAnalysis> {
+    return this.track(
+      { operation: "analyzeSong" },
+      async () => {
+        this.logger.info("Analyzing song", { title, artist })
 
-    const currentYear = new Date().getFullYear()
-    return this.generatePlaylistSuggestions({
-      popularity: "high",
-      yearRange: {
-        start: currentYear - 1,
-        end: currentYear,
+        try {
+          return await this.cacheService.getOrCompute(
+            { type: "song_analysis", criteria: { title, artist } },
+            () => {
+              this.logger.debug("Performing new song analysis")
+              return this.musicAnalysisService.analyzeSong(title, artist)
+            }
+          )
+        } catch (error) {
+          this.logger.error("Error analyzing song", error, { title, artist })
+          throw error
+        }
       },
-    })
+      options
+    )
   }
 
-  async findPopularArtists(): Promise<Artist[]> {
-    this.logger.info("Finding popular artists")
-
-    try {
-      const result = await this.generatePlaylistSuggestions({
-        popularity: "high",
-      })
-
-      const uniqueArtists = [...new Set(result.songs.map((song) => song.artist))]
+  async findSimilarSongs(
+    song: { title: string; artist: string },
+    options?: CallOptions
+  ): Promise<FanOutResult<SongAnalysis[]>> {
+    return this.track(
+      { operation: "findSimilarSongs" },
+      async () => {
+        this.logger.info("Finding similar songs", song)
+        const warnings: string[] = []
+        const failures: FanOutFailure[] = []
 
-      this.logger.debug("Analyzing top artists", {
-        count: uniqueArtists.length,
-      })
+        try {
+          const songAnalysis = await this.analyzeSong(song.title, song.artist)
 
-      const artistAnalyses = await Promise.all(
-        uniqueArtists.slice(0, 10).map(async (artist) => {
-          try {
-            return await this.musicAnalysisService.analyzeArtist(artist)
-          } catch (error) {
-            this.logger.error("Error analyzing artist", error, { artist })
-            return null
+          if (!songAnalysis?.similarSongs) {
+            this.logger.warn("No similar songs found", song)
+            warnings.push("No similar songs found")
+            return this.partialResult([], 0, failures, warnings)
           }
-        })
-      )
 
-      const validArtists = artistAnalyses.filter((a): a is Artist => a !== null)
+          this.logger.debug("Analyzing similar songs", {
+            count: songAnalysis.similarSongs.length,
+          })
 
-      this.logger.info("Popular artists analysis completed", {
-        count: validArtists.length,
-      })
+          const validAnalyses = await this.fanOut(
+            songAnalysis.similarSongs,
+            (songString) => songString,
+            async (songString) => {
+              const [title, artist] = songString.split(" by ").map((s) => s.trim())
+              if (!title || !artist) {
+                this.logger.warn("Invalid song format", { songString })
+                warnings.push(`Invalid song format: ${songString}`)
+                return null
+              }
+              return this.analyzeSong(title, artist)
+            },
+            failures
+          )
+          const attempted = songAnalysis.similarSongs.length
+          this.checkMinSuccess("findSimilarSongs", attempted, failures, options)
 
-      return validArtists
-    } catch (error) {
-      this.logger.error("Error finding popular artists", error)
-      throw error
-    }
+          this.logger.info("Similar songs analysis completed", {
+            totalFound: validAnalyses.length,
+          })
+
+          return this.partialResult(validAnalyses, attempted, failures, warnings)
+        } catch (error) {
+          if (!this.shouldDegrade(error)) throw error
+          this.logger.error("Error finding similar songs", error, song)
+          // L'analyse de la chanson de départ compte comme unique sous-analyse
+          const seedFailures = [this.toFailure(`${song.title} by ${song.artist}`, error)]
+          this.checkMinSuccess("findSimilarSongs", 1, seedFailures, options)
+          return this.partialResult([], 1, seedFailures, warnings)
+        }
+      },
+      options
+    )
   }
 
-  async findSongsByGenre(genre: string): Promise<GenerationResult> {
-    this.logger.info("Finding songs by genre", { genre })
-    return this.generatePlaylistSuggestions({ genres: [genre] })
+  async findSimilarArtists(
+    artist: string,
+    options?: CallOptions
+  ): Promise<FanOutResult<Artist[]>> {
+    return this.track(
+      { operation: "findSimilarArtists" },
+      async () => {
+        this.logger.info("Finding similar artists", { artist })
+
+        try {
+          const { data, warnings, failures } = await this.sharedSimilarArtists(artist)
+          // Seuil propre à chaque appelant, même pour un calcul partagé
+          this.checkMinSuccess(
+            "findSimilarArtists",
+            data.length + failures.length,
+            failures,
+            options
+          )
+          return { data, warnings: [...warnings], failures: [...failures] }
+        } catch (error) {
+          this.logger.error("Error finding similar artists", error, { artist })
+          throw error
+        }
+      },
+      options
+    )
   }
 
-  async findSongsByMood(mood: string): Promise<GenerationResult> {
-    this.logger.info("Finding songs by mood", { mood })
-    return this.generatePlaylistSuggestions({ mood })
+  // Seule une liste complète est mise en cache ; les appels concurrents partagent le
+  // résultat complet (données et échecs) du calcul en cours
+  private sharedSimilarArtists(artist: string): Promise<FanOutResult<Artist[]>> {
+    const key = { type: "similar_artists", criteria: { artist } }
+    const id = this.cacheService.generateCacheKey(key)
+    const pending = this.similarArtistsInFlight.get(id)
+    if (pending) return pending
+
+    const shared = (async () => {
+      let computed: FanOutResult<Artist[]> | undefined
+      const data = await this.cacheService.getOrCompute(
+        key,
+        async () => (computed = await this.computeSimilarArtists(artist)).data,
+        () => !computed?.failures.length
+      )
+      return computed || { data, warnings: [], failures: [] }
+    })()
+    this.similarArtistsInFlight.set(id, shared)
+    return shared.finally(() => this.similarArtistsInFlight.delete(id))
   }
 
-  async findSongsByTempo(tempo: "slow" | "medium" | "fast"): Promise<GenerationResult> {
-    this.logger.info("Finding songs by tempo", { tempo })
-    return this.generatePlaylistSuggestions({ tempo })
+  private async computeSimilarArtists(artist: string): Promise<FanOutResult<Artist[]>> {
+    const artistAnalysis = await this.musicAnalysisService.analyzeArtist(artist)
+    const names = artistAnalysis.similarArtists
+
+    this.logger.debug("Analyzing similar artists", { count: names.length })
+
+    const failures: FanOutFailure[] = []
+    const similarArtists = await this.fanOut(
+      names,
+      (name) => name,
+      (name) => this.musicAnalysisService.analyzeArtist(name),
+      failures
+    )
+
+    return this.partialResult(similarArtists, names.length, failures)
   }
 
-  async findSongsByYear(year: number): Promise<GenerationResult> {
-    this.logger.info("Finding songs by year", { year })
-    return this.generatePlaylistSuggestions({
-      yearRange: { start: year, end: year },
-    })
+  async findPopularSongs(options?: CallOptions): Promise<GenerationResult> {
+    return this.track(
+      { operation: "findPopularSongs" },
+      async () => {
+        this.logger.info("Finding popular songs")
+
+        const currentYear = new Date().getFullYear()
+        return this.generatePlaylistSuggestions({
+          popularity: "high",
+          yearRange: {
+            start: currentYear - 1,
+            end: currentYear,
+          },
+        })
+      },
+      options
+    )
   }
 
-  async analyzeMusicTrend(genre: string): Promise<MusicTrend> {
-    this.logger.info("Analyzing music trend", { genre })
+  async findPopularArtists(options?: CallOptions): Promise<FanOutResult<Artist[]>> {
+    return this.track(
+      { operation: "findPopularArtists" },
+      async () => {
+        this.logger.info("Finding popular artists")
 
-    try {
-      const cached = this.cacheService.get<MusicTrend>({
-        type: "trend",
-        criteria: { genre },
-      })
+        try {
+          const result = await this.generatePlaylistSuggestions({
+            popularity: "high",
+          })
 
-      if (cached) {
-        this.logger.debug("Returning cached trend analysis", { genre })
-        return cached
-      }
+          const uniqueArtists = [...new Set(result.songs.map((song) => song.artist))]
 
-      this.logger.debug("Performing new trend analysis", { genre })
-      const trend = await this.musicAnalysisService.analyzeTrend(genre)
+          this.logger.debug("Analyzing top artists", {
+            count: uniqueArtists.length,
+          })
 
-      this.logger.debug("Caching trend analysis", { genre })
-      this.cacheService.set(
-        {
-          type: "trend",
-          criteria: { genre },
-        },
-        trend
-      )
+          const topArtists = uniqueArtists.slice(0, 10)
+          const failures: FanOutFailure[] = []
+          const validArtists = await this.fanOut(
+            topArtists,
+            (artist) => artist,
+            (artist) => this.musicAnalysisService.analyzeArtist(artist),
+            failures
+          )
+          this.checkMinSuccess("findPopularArtists", topArtists.length, failures, options)
 
-      return trend
-    } catch (error) {
-      this.logger.error("Error analyzing music trend", error, { genre })
-      throw error
-    }
+          this.logger.info("Popular artists analysis completed", {
+            count: validArtists.length,
+          })
+
+          return this.partialResult(validArtists, topArtists.length, failures)
+        } catch (error) {
+          this.logger.error("Error finding popular artists", error)
+          throw error
+        }
+      },
+      options
+    )
   }
 
-  async generateMixedPlaylist(
-    songs: { title: string; artist: string }[]
+  async findSongsByGenre(
+    genre: string,
+    options?: CallOptions
   ): Promise<GenerationResult> {
-    this.logger.info("Generating mixed playlist", {
-      songsCount: songs.length,
-    })
-
-    try {
-      this.logger.debug("Analyzing input songs")
-      const analyses = await Promise.all(
-        songs.map(async (song) => {
-          try {
-            return await this.analyzeSong(song.title, song.artist)
-          } catch (error) {
-            this.logger.error("Error analyzing song for mixed playlist", error, song)
-            return null
-          }
-        })
-      )
+    return this.track(
+      { operation: "findSongsByGenre" },
+      async () => {
+        this.logger.info("Finding songs by genre", { genre })
+        return this.generatePlaylistSuggestions({ genres: [genre] })
+      },
+      options
+    )
+  }
 
-      const validAnalyses = analyses.filter((a): a is SongAnalysis => a !== null)
+  async findSongsByMood(mood: string, options?: CallOptions): Promise<GenerationResult> {
+    return this.track(
+      { operation: "findSongsByMood" },
+      async () => {
+        this.logger.info("Finding songs by mood", { mood })
+        return this.generatePlaylistSuggestions({ mood })
+      },
+      options
+    )
+  }
 
-      const commonFeatures = {
-        genres: [...new Set(validAnalyses.flatMap((a) => a.features.genre))],
-        mood: [...new Set(validAnalyses.flatMap((a) => a.features.mood))],
-        tempo:
-          validAnalyses.reduce((sum, a) => sum + a.features.tempo, 0) /
-          validAnalyses.length,
-      }
+  async findSongsByTempo(
+    tempo: "slow" | "medium" | "fast",
+    options?: CallOptions
+  ): Promise<GenerationResult> {
+    return this.track(
+      { operation: "findSongsByTempo" },
+      async () => {
+        this.logger.info("Finding songs by tempo", { tempo })
+        return this.generatePlaylistSuggestions({ tempo })
+      },
+      options
+    )
+  }
 
-      this.logger.debug("Extracted common features", commonFeatures)
-
-      return this.generatePlaylistSuggestions({
-        genres: commonFeatures.genres,
-        mood: commonFeatures.mood[0],
-        tempo:
-          commonFeatures.tempo > 120
-            ? "fast"
-            : commonFeatures.tempo < 80
-              ? "slow"
-              : "medium",
-      })
-    } catch (error) {
-      this.logger.error("Error generating mixed playlist", error, { songs })
-      throw error
-    }
+  async findSongsByYear(year: number, options?: CallOptions): Promise<GenerationResult> {
+    return this.track(
+      { operation: "findSongsByYear" },
+      async () => {
+        this.logger.info("Finding songs by year", { year })
+        return this.generatePlaylistSuggestions({
+          yearRange: { start: year, end: year },
+        })
+      },
+      options
+    )
   }
 
-  async findTrendingInGenre(genre: string): Promise<{
-    songs: Song[]
-    artists: Artist[]
-    trend: MusicTrend
-  }> {
-    this.logger.info("Finding trending content in genre", { genre })
+  async analyzeMusicTrend(genre: string, options?: CallOptions): Promise<MusicTrend> {
+    return this.track(
+      { operation: "analyzeMusicTrend" },
+      async () => {
+        this.logger.info("Analyzing music trend", { genre })
 
-    try {
-      const trend = await this.analyzeMusicTrend(genre)
+        try {
+          return await this.cacheService.getOrCompute(
+            { type: "trend", criteria: { genre } },
+            () => {
+              this.logger.debug("Performing new trend analysis", { genre })
+              return this.musicAnalysisService.analyzeTrend(genre)
+            }
+          )
+        } catch (error) {
+          this.logger.error("Error analyzing music trend", error, { genre })
+          throw error
+        }
+      },
+      options
+    )
+  }
 
-      this.logger.debug("Analyzing trending artists", {
-        artistCount: trend.recentArtists.length,
-      })
+  async generateMixedPlaylist(
+    songs: { title: string; artist: string }[],
+    options?: CallOptions
+  ): Promise<FanOutResult<GenerationResult>> {
+    return this.track(
+      { operation: "generateMixedPlaylist" },
+      async () => {
+        this.logger.info("Generating mixed playlist", {
+          songsCount: songs.length,
+        })
 
-      const artists = await Promise.all(
-        trend.recentArtists.slice(0, 5).map(async (artist) => {
-          try {
-            return await this.musicAnalysisService.analyzeArtist(artist)
-          } catch (error) {
-            this.logger.error("Error analyzing trending artist", error, { artist })
-            return null
+        try {
+          this.logger.debug("Analyzing input songs")
+          const failures: FanOutFailure[] = []
+          const validAnalyses = await this.fanOut(
+            songs,
+            (song) => `${song.title} by ${song.artist}`,
+            (song) => this.analyzeSong(song.title, song.artist),
+            failures
+          )
+          this.checkMinSuccess("generateMixedPlaylist", songs.length, failures, options)
+
+          const commonFeatures = {
+            genres: [...new Set(validAnalyses.flatMap((a) => a.features.genre))],
+            mood: [...new Set(validAnalyses.flatMap((a) => a.features.mood))],
+            tempo:
+              validAnalyses.reduce((sum, a) => sum + a.features.tempo, 0) /
+              validAnalyses.length,
           }
-        })
-      )
 
-      const validArtists = artists.filter((a): a is Artist => a !== null)
+          this.logger.debug("Extracted common features", commonFeatures)
+
+          const playlist = await this.generatePlaylistSuggestions({
+            genres: commonFeatures.genres,
+            mood: commonFeatures.mood[0],
+            tempo:
+              commonFeatures.tempo > 120
+                ? "fast"
+                : commonFeatures.tempo < 80
+                  ? "slow"
+                  : "medium",
+          })
+          return this.partialResult(playlist, songs.length, failures)
+        } catch (error) {
+          this.logger.error("Error generating mixed playlist", error, { songs })
+          throw error
+        }
+      },
+      options
+    )
+  }
 
-      this.logger.debug("Finding songs for genre")
-      const playlistResult = await this.findSongsByGenre(genre)
+  async findTrendingInGenre(
+    genre: string,
+    options?: CallOptions
+  ): Promise<
+    FanOutResult<{
+      songs: Song[]
+      artists: Artist[]
+      trend: MusicTrend
+    }>
+  > {
+    return this.track(
+      { operation: "findTrendingInGenre" },
+      async () => {
+        this.logger.info("Finding trending content in genre", { genre })
 
-      const result = {
-        songs: playlistResult.songs,
-        artists: validArtists,
-        trend,
-      }
+        try {
+          const trend = await this.analyzeMusicTrend(genre)
 
-      this.logger.info("Completed trending analysis", {
-        songsCount: result.songs.length,
-        artistsCount: result.artists.length,
-      })
+          this.logger.debug("Analyzing trending artists", {
+            artistCount: trend.recentArtists.length,
+          })
 
-      return result
-    } catch (error) {
-      this.logger.error("Error finding trending content", error, { genre })
-      throw error
-    }
+          const trendingArtists = trend.recentArtists.slice(0, 5)
+          const failures: FanOutFailure[] = []
+          const validArtists = await this.fanOut(
+            trendingArtists,
+            (artist) => artist,
+            (artist) => this.musicAnalysisService.analyzeArtist(artist),
+            failures
+          )
+          this.checkMinSuccess(
+            "findTrendingInGenre",
+            trendingArtists.length,
+            failures,
+            options
+          )
+
+          this.logger.debug("Finding songs for genre")
+          const playlistResult = await this.findSongsByGenre(genre)
+
+          const result = {
+            songs: playlistResult.songs,
+            artists: validArtists,
+            trend,
+          }
+
+          this.logger.info("Completed trending analysis", {
+            songsCount: result.songs.length,
+            artistsCount: result.artists.length,
+          })
+
+          return this.partialResult(result, trendingArtists.length, failures)
+        } catch (error) {
+          this.logger.error("Error finding trending content", error, { genre })
+          throw error
+        }
+      },
+      options
+    )
   }
 
   // Méthodes Spotify
-  async generateEnhancedPlaylist(criteria: PlaylistCriteria): Promise<{
+  // Sans session, la recherche de titres utilise la session par défaut
+  async generateEnhancedPlaylist(
+    criteria: PlaylistCriteria,
+    session?: SpotifySession,
+    options?: CallOptions
+  ): Promise<{
     suggestions: GenerationResult
     spotifyTracks?: SpotifyApi.TrackObjectFull[]
   }> {
-    this.logger.info("Generating enhanced playlist", { criteria })
-    try {
-      const suggestions = await this.generatePlaylistSuggestions(criteria)
+    return this.track(
+      { operation: "generateEnhancedPlaylist", userId: session?.userId },
+      async () => {
+        this.logger.info("Generating enhanced playlist", { criteria })
+        try {
+          const suggestions = await this.generatePlaylistSuggestions(criteria)
 
-      if (!this.spotifyService) {
-        this.logger.warn("Spotify service not enabled, returning basic suggestions")
-        return { suggestions }
-      }
+          if (!this.spotifySessions) {
+            this.logger.warn("Spotify service not enabled, returning basic suggestions")
+            return { suggestions }
+          }
+          const spotifyService = (session || this.spotifySessions.get()).service
 
-      if (!suggestions?.songs.length) {
-        this.logger.warn("No songs in suggestions")
-        return { suggestions }
-      }
+          if (!suggestions?.songs.length) {
+            this.logger.warn("No songs in suggestions")
+            return { suggestions }
+          }
 
-      this.logger.debug("Searching Spotify tracks", {
-        songsCount: suggestions.songs.length,
-      })
+          this.logger.debug("Searching Spotify tracks", {
+            songsCount: suggestions.songs.length,
+          })
 
-      const spotifyTrackPromises = suggestions.songs.map(async (song) => {
-        try {
-          const results = await this.spotifyService!.searchTracks(
-            `track:${song.title} artist:${song.artist}`,
-            1
-          )
-          return results?.[0]
-        } catch (error) {
-          this.logger.error(`Error searching for track: ${song.title}`, error)
-          return null
-        }
-      })
+          const spotifyTrackPromises = suggestions.songs.map(async (song) => {
+            try {
+              const match = await spotifyService.matchTrack(song)
+              if (!match.track) {
+                this.logger.debug("No confident Spotify match", {
+                  title: song.title,
+                  artist: song.artist,
+                  bestScore: match.score,
+                })
+              }
+              return match.track
+            } catch (error) {
+              if (!this.shouldDegrade(error)) throw error
+              this.logger.error(`Error searching for track: ${song.title}`, error)
+              return null
+            }
+          })
 
-      const spotifyTracks = await Promise.all(spotifyTrackPromises)
+          const spotifyTracks = await Promise.all(spotifyTrackPromises)
 
-      try {
-        const spotifyRecommendations =
-          await this.spotifyService.getRecommendations(criteria)
+          try {
+            const spotifyRecommendations =
+              await spotifyService.getRecommendations(criteria)
 
-        const allTracks = [...spotifyTracks, ...(spotifyRecommendations || [])].filter(
-          (track): track is SpotifyApi.TrackObjectFull => !!track
-        )
+            const allTracks = [
+              ...spotifyTracks,
+              ...(spotifyRecommendations || []),
+            ].filter((track): track is SpotifyApi.TrackObjectFull => !!track)
 
-        return {
-          suggestions,
-          spotifyTracks: allTracks,
-        }
-      } catch (error) {
-        this.logger.error("Error getting Spotify recommendations:", error)
-        return {
-          suggestions,
-          spotifyTracks: spotifyTracks.filter(
-            (track): track is SpotifyApi.TrackObjectFull => !!track
-          ),
+            return {
+              suggestions,
+              spotifyTracks: allTracks,
+            }
+          } catch (error) {
+            if (!this.shouldDegrade(error)) throw error
+            this.logger.error("Error getting Spotify recommendations:", error)
+            return {
+              suggestions,
+              spotifyTracks: spotifyTracks.filter(
+                (track): track is SpotifyApi.TrackObjectFull => !!track
+              ),
+            }
+          }
+        } catch (error) {
+          if (!this.shouldDegrade(error)) throw error
+          this.logger.error("Spotify integration error:", error)
+          return {
+            suggestions: {
+              songs: [],
+              explanation: "Failed to generate suggestions",
+              tags: [],
+            },
+          }
         }
-      }
-    } catch (error) {
-      this.logger.error("Spotify integration error:", error)
-      return {
-        suggestions: {
-          songs: [],
-          explanation: "Failed to generate suggestions",
-          tags: [],
-        },
-      }
-    }
+      },
+      options
+    )
   }
 
+  // La playlist est créée sur le compte Spotify de la session
   async saveToSpotify(
-    userId: string,
+    session: SpotifySession,
     playlistName: string,
-    tracks: SpotifyApi.TrackObjectFull[]
+    tracks: SpotifyApi.TrackObjectFull[],
+    options?: CallOptions
   ): Promise<string> {
-    this.logger.info("Saving playlist to Spotify", {
-      userId,
-      playlistName,
-      tracksCount: tracks.length,
-    })
-    if (!this.spotifyService) {
-      const error = new Error("Spotify integration not enabled")
-      this.logger.error("failed to save playlist to Spotify", error)
-      throw error
-    }
+    return this.track(
+      { operation: "saveToSpotify", userId: session.userId },
+      async () => {
+        const { userId } = session
+        this.logger.info("Saving playlist to Spotify", {
+          userId,
+          playlistName,
+          tracksCount: tracks.length,
+        })
 
-    try {
-      const playlistId = await this.spotifyService.createPlaylist(
-        userId,
-        playlistName,
-        tracks.map((track) => track.id)
-      )
+        try {
+          const playlistId = await session.service.createPlaylist(
+            userId,
+            playlistName,
+            tracks.map((track) => track.id)
+          )
 
-      this.logger.info("Playlist saved successfully", {
-        userId,
-        playlistName,
-        playlistId,
-      })
+          this.logger.info("Playlist saved successfully", {
+            userId,
+            playlistName,
+            playlistId,
+          })
 
-      return playlistId
-    } catch (error) {
-      this.logger.error("Error saving playlist to Spotify", error, {
-        userId,
-        playlistName,
-        tracksCount: tracks.length,
-      })
-      throw error
-    }
+          return playlistId
+        } catch (error) {
+          this.logger.error("Error saving playlist to Spotify", error, {
+            userId,
+            playlistName,
+            tracksCount: tracks.length,
+          })
+          throw error
+        }
+      },
+      options
+    )
   }
 
   async analyzeUserTaste(
-    timeRange: "short_term" | "medium_term" | "long_term" = "medium_term"
+    session: SpotifySession,
+    timeRange: "short_term" | "medium_term" | "long_term" = "medium_term",
+    options?: CallOptions
   ): Promise<{
     topTracks: SpotifyApi.TrackObjectFull[]
     audioFeatures: SpotifyApi.AudioFeaturesObject[]
@@ -577,111 +1116,107 @@ export class PlaylistGenius {
       }
     }
   }> {
-    this.logger.info("Analyzing user taste", { timeRange })
-
-    if (!this.spotifyService) {
-      const error = new Error("Spotify integration not enabled")
-      this.logger.error("Failed to analyze user taste", error)
-      throw error
-    }
-
-    const CacheKey = {
-      type: "user_taste_analysis",
-      criteria: { timeRange },
-    }
-
-    const cached = this.cacheService.get(CacheKey)
-    if (cached) {
-      this.logger.debug("Returning cached user taste analysis", {
-        timeRange,
-        tracksCount: cached.topTracks.length,
-      })
-      return cached
-    }
+    return this.track(
+      { operation: "analyzeUserTaste", userId: session.userId },
+      async () => {
+        const { userId, service: spotifyService } = session
+        this.logger.info("Analyzing user taste", { userId, timeRange })
+
+        const CacheKey = {
+          type: "user_taste_analysis",
+          criteria: { timeRange },
+          namespace: session.cacheNamespace,
+        }
 
-    console.log("Starting user taste analysis...")
+        const cached = await this.cacheService.get(CacheKey)
+        if (cached) {
+          this.logger.debug("Returning cached user taste analysis", {
+            timeRange,
+            tracksCount: cached.topTracks.length,
+          })
+          return cached
+        }
 
-    try {
-      this.logger.debug(`Fetching top tracks for ${timeRange}`)
-      const topTracks = await this.spotifyService.getUserTopTracks(timeRange, 50)
-      this.logger.debug("Top tracks fetched", { count: topTracks.length })
+        try {
+          this.logger.debug(`Fetching top tracks for ${timeRange}`)
+          const topTracks = await spotifyService.getUserTopTracks(timeRange, 50)
+          this.logger.debug("Top tracks fetched", { count: topTracks.length })
 
-      if (topTracks.length === 0) {
-        this.logger.warn("No top tracks found, returning default analysis")
-        return this.getDefaultAnalysis()
-      }
+          if (topTracks.length === 0) {
+            this.logger.warn("No top tracks found, returning default analysis")
+            return this.getDefaultAnalysis()
+          }
 
-      this.logger.debug("Fetching audio features for tracks")
-      const audioFeatures = await Promise.all(
-        topTracks.map((track) => {
-          this.logger.debug("Getting features for track", {
-            trackName: track.name,
-            trackId: track.id,
+          this.logger.debug("Fetching audio features for tracks")
+          const audioFeatures = await spotifyService.getTracksAudioFeatures(
+            topTracks.map((track) => track.id)
+          )
+          this.logger.debug("Analyzing audio features", {
+            featuresCount: audioFeatures.length,
           })
-          return this.spotifyService!.getTrackFeatures(track.id)
-        })
-      )
-      this.logger.debug("Analyzing audio features", {
-        featuresCount: audioFeatures.length,
-      })
 
-      // Initialiser les compteurs
-      let slow = 0,
-        medium = 0,
-        fast = 0
-      let happy = 0,
-        sad = 0,
-        energetic = 0,
-        calm = 0
-      const totalTracks = audioFeatures.length || 1
-
-      audioFeatures.forEach((features) => {
-        // Tempo distribution
-        if (features.tempo < 100) slow++
-        else if (features.tempo < 130) medium++
-        else fast++
-
-        // Mood profile
-        if (features.valence > 0.6) happy++
-        if (features.valence < 0.4) sad++
-        if (features.energy > 0.6) energetic++
-        if (features.energy < 0.4) calm++
-      })
+          // Initialiser les compteurs
+          let slow = 0,
+            medium = 0,
+            fast = 0
+          let happy = 0,
+            sad = 0,
+            energetic = 0,
+            calm = 0
+          const totalTracks = audioFeatures.length || 1
+
+          audioFeatures.forEach((features) => {
+            // Tempo distribution
+            if (features.tempo < 100) slow++
+            else if (features.tempo < 130) medium++
+            else fast++
+
+            // Mood profile
+            if (features.valence > 0.6) happy++
+            if (features.valence < 0.4) sad++
+            if (features.energy > 0.6) energetic++
+            if (features.energy < 0.4) calm++
+          })
 
-      this.logger.debug("Extracting genres from tracks")
-      const genres = await this.extractGenresFromTracks(topTracks)
-      this.logger.debug("Genres extracted", {
-        uniqueGenresCount: genres.length,
-      })
+          this.logger.debug("Extracting genres from tracks")
+          const genres = await this.extractGenresFromTracks(session, topTracks, options)
+          this.logger.debug("Genres extracted", {
+            uniqueGenresCount: genres.length,
+          })
 
-      const analysis = {
-        preferredGenres: genres,
-        averageEnergy: this.average(audioFeatures.map((f) => f.energy)),
-        averageDanceability: this.average(audioFeatures.map((f) => f.danceability)),
-        tempoDistribution: {
-          slow: slow / totalTracks,
-          medium: medium / totalTracks,
-          fast: fast / totalTracks,
-        },
-        moodProfile: {
-          happy: happy / totalTracks,
-          sad: sad / totalTracks,
-          energetic: energetic / totalTracks,
-          calm: calm / totalTracks,
-        },
-      }
+          const analysis = {
+            preferredGenres: genres,
+            averageEnergy: this.average(audioFeatures.map((f) => f.energy)),
+            averageDanceability: this.average(audioFeatures.map((f) => f.danceability)),
+            tempoDistribution: {
+              slow: slow / totalTracks,
+              medium: medium / totalTracks,
+              fast: fast / totalTracks,
+            },
+            moodProfile: {
+              happy: happy / totalTracks,
+              sad: sad / totalTracks,
+              energetic: energetic / totalTracks,
+              calm: calm / totalTracks,
+            },
+          }
 
-      const result = {
-        topTracks,
-        audioFeatures,
-        analysis,
-      }
-      this.logger.info("User taste analysis completed successfully")
-      return result
-    } catch (error) {
-      this.logger.error("Error in analyzeUserTaste", error, { timeRange })
-      return this.getDefaultAnalysis()
-    }
+          const result = {
+            topTracks,
+            audioFeatures,
+            analysis,
+          }
+          await this.cacheService.set(CacheKey, result)
+          this.logger.info("User taste analysis completed successfully", { userId })
+          return result
+        } catch (error) {
+          this.logger.error("Error in analyzeUserTaste", error, { userId, timeRange })
+          if (!this.shouldDegrade(error, options)) throw error
+          return this.getDefaultAnalysis()
+        }
+      },
+      options
+    )
   }
 
   private getDefaultAnalysis() {
@@ -709,12 +1244,10 @@ export class PlaylistGenius {
 
   // Méthode utilitaire pour extraire les genres
   private async extractGenresFromTracks(
-    tracks: SpotifyApi.TrackObjectFull[]
+    session: SpotifySession,
+    tracks: SpotifyApi.TrackObjectFull[],
+    options?: CallOptions
   ): Promise<string[]> {
-    if (!this.spotifyService) {
-      return []
-    }
-
     try {
       // Récupérer les IDs d'artistes uniques
       const artistIds = [
@@ -722,9 +1255,7 @@ export class PlaylistGenius {
       ]
 
       // Récupérer les détails des artistes
-      const artists = await Promise.all(
-        artistIds.map((id) => this.spotifyService!.getArtist(id))
-      )
+      const artists = await session.service.getArtists(artistIds)
 
       // Compter les occurrences des genres
       const genreCounts = new Map<string, number>()
@@ -739,7 +1270,8 @@ export class PlaylistGenius {
         .sort((a, b) => b[1] - a[1])
         .map(([genre]) => genre)
     } catch (error) {
-      console.error("Error extracting genres:", error)
+      if (!this.shouldDegrade(error, options)) throw error
+      this.logger.error("Error extracting genres", error)
       return []
     }
   }
@@ -749,35 +1281,39 @@ export class PlaylistGenius {
     return numbers.reduce((sum, num) => sum + num, 0) / numbers.length
   }
 
-  async generatePersonalizedPlaylist(userId: string): Promise<GenerationResult> {
-    this.logger.info("Generating personalized playlist", { userId })
-
-    if (!this.spotifyService) {
-      const error = new Error("Spotify integration not enabled")
-      this.logger.error("Failed to generate personalized playlist", error)
-      throw error
-    }
+  async generatePersonalizedPlaylist(
+    session: SpotifySession,
+    options?: CallOptions
+  ): Promise<GenerationResult> {
+    return this.track(
+      { operation: "generatePersonalizedPlaylist", userId: session.userId },
+      async () => {
+        const { userId } = session
+        this.logger.info("Generating personalized playlist", { userId })
 
-    try {
-      // Analyser les goûts de l'utilisateur
-      this.logger.debug("Analyzing user taste for personalization")
-      const userTaste = await this.analyzeUserTaste()
-
-      // Créer des critères basés sur l'analyse
-      const criteria: PlaylistCriteria = {
-        genres: userTaste.analysis.preferredGenres.slice(0, 3),
-        tempo: this.determinePreferredTempo(userTaste.analysis.tempoDistribution),
-        mood: this.determinePreferredMood(userTaste.analysis.moodProfile),
-      }
+        try {
+          // Analyser les goûts de l'utilisateur
+          this.logger.debug("Analyzing user taste for personalization")
+          const userTaste = await this.analyzeUserTaste(session)
+
+          // Créer des critères basés sur l'analyse
+          const criteria: PlaylistCriteria = {
+            genres: userTaste.analysis.preferredGenres.slice(0, 3),
+            tempo: this.determinePreferredTempo(userTaste.analysis.tempoDistribution),
+            mood: this.determinePreferredMood(userTaste.analysis.moodProfile),
+          }
 
-      this.logger.debug("Generated playlist criteria from taste analysis", criteria)
+          this.logger.debug("Generated playlist criteria from taste analysis", criteria)
 
-      // Générer une playlist basée sur ces critères
-      return this.generatePlaylistSuggestions(criteria)
-    } catch (error) {
-      this.logger.error("Error generating personalized playlist", error, { userId })
-      throw error
-    }
+          // Générer une playlist basée sur ces critères
+          return this.generatePlaylistSuggestions(criteria)
+        } catch (error) {
+          this.logger.error("Error generating personalized playlist", error, { userId })
+          throw error
+        }
+      },
+      options
+    )
   }
 
   private extractGenres(tracks: SpotifyApi.TrackObjectFull[]): string[] {
@@ -873,41 +1409,106 @@ export class PlaylistGenius {
     return "calm"
   }
 
-  clearCache(): void {
-    this.cacheService.clear()
+  async clearCache(): Promise<void> {
+    await this.cacheService.clear()
   }
 
-  getCacheStats() {
+  async getCacheStats(): Promise<CacheStats> {
     return this.cacheService.getStats()
   }
 
-  getSpotifyAuthUrl(): string {
-    if (!this.spotifyService) {
-      throw new Error("Spotify integration not enabled")
-    }
-    return this.spotifyService.getAuthorizationUrl()
+  async listCacheEntries(type?: string): Promise<CacheEntryInfo[]> {
+    return this.cacheService.listEntries(type)
   }
 
-  async handleSpotifyAuth(code: string): Promise<SpotifyAuthTokens> {
-    if (!this.spotifyService) {
-      throw new Error("Spotify integration not enabled")
-    }
-    const tokens = await this.spotifyService.getTokens(code)
-    this.setSpotifyTokens(tokens)
-    return tokens
+  async inspectCacheEntry(key: CacheKey) {
+    return this.cacheService.inspect(key)
+  }
+
+  // Par type ("trend") ou prédicat, ex. :
+  // (key) => "artist" in key.criteria && key.criteria.artist === "Blur"
+  async invalidateCache(filter: string | ((key: CacheKey) => boolean)): Promise<number> {
+    const removed = await this.cacheService.invalidateWhere(filter)
+    this.logger.info("Cache entries invalidated", { removed })
+    return removed
+  }
+
+  async exportCache(path: string): Promise<number> {
+    const count = await this.cacheService.exportTo(path)
+    this.logger.info("Cache exported", { path, count })
+    return count
+  }
+
+  async importCache(path: string): Promise<number> {
+    const count = await this.cacheService.importFrom(path)
+    this.logger.info("Cache imported", { path, count })
+    return count
+  }
+
+  getUsageReport(): UsageReport {
+    return this.usageLedger.getReport()
+  }
+
+  resetUsage(): void {
+    this.usageLedger.reset()
+  }
+
+  // Spans terminés, en attente d'export
+  getTraceSpans(): TraceSpan[] {
+    return this.tracer.getSpans()
   }
 
-  setSpotifyTokens(tokens: SpotifyAuthTokens): void {
-    if (!this.spotifyService) {
-      throw new Error("Spotify integration not enabled")
+  // Exporte les spans au format OTLP/JSON (OpenTelemetry) puis vide le tampon
+  async exportTraces(path: string): Promise<number> {
+    const count = await this.tracer.exportTo(path)
+    this.logger.info("Traces exported", { path, count })
+    return count
+  }
+
+  // Impute à userId la consommation LLM des appels faits dans fn (budget perUserDaily)
+  async runAsUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return this.usageLedger.runAs(userId, fn)
+  }
+
+  // Session Spotify d'un utilisateur, créée à la demande (session par défaut sans userId)
+  getSpotifySession(userId: string = DEFAULT_SESSION_ID): SpotifySession {
+    if (!this.spotifySessions) {
+      throw new NotConfiguredError("Spotify integration not enabled")
     }
-    this.spotifyService.setTokens(tokens)
+    return this.spotifySessions.get(userId)
   }
 
-  async refreshSpotifyTokens(): Promise<SpotifyAuthTokens> {
-    if (!this.spotifyService) {
-      throw new Error("Spotify integration not enabled")
+  // Déconnecte l'utilisateur : tokens enregistrés et cache de la session supprimés
+  async removeSpotifySession(userId: string): Promise<void> {
+    if (!this.spotifySessions) {
+      throw new NotConfiguredError("Spotify integration not enabled")
     }
-    return this.spotifyService.refreshAccessToken()
+    await this.spotifySessions.remove(userId)
+  }
+
+  getSpotifyAuthUrl(session: SpotifySession): string {
+    return session.service.getAuthorizationUrl()
+  }
+
+  // state : paramètre renvoyé par Spotify sur l'URL de callback
+  async handleSpotifyAuth(
+    session: SpotifySession,
+    code: string,
+    state: string
+  ): Promise<SpotifyAuthTokens> {
+    return session.service.getTokens(code, state)
+  }
+
+  setSpotifyTokens(session: SpotifySession, tokens: SpotifyAuthTokens): void {
+    session.service.setTokens(tokens)
+  }
+
+  // Recharge les tokens depuis spotifyAuth.tokenStore ; false si aucun n'est enregistré
+  async restoreSpotifySession(session: SpotifySession): Promise<boolean> {
+    return session.service.restoreSession()
+  }
+
+  async refreshSpotifyTokens(session: SpotifySession): Promise<SpotifyAuthTokens> {
+    return session.service.refreshAccessToken()
   }
 }
@@ -0,0 +1,106 @@
+import { toPlaylistGeniusError } from "../errors"
+import {
+  ChatMessage,
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  ModelSelection,
+} from "../types"
+
+export interface AnthropicProviderOptions {
+  apiKey: string
+  baseURL?: string
+  maxTokens?: number // obligatoire pour l'API Messages
+}
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+interface AnthropicMessageResponse {
+  model: string
+  content: Array<{ type: string; text?: string }>
+  usage?: { input_tokens: number; output_tokens: number }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic"
+  readonly defaultModels: Partial<ModelSelection> = {
+    playlist: "claude-3-5-haiku-latest",
+    analysis: "claude-3-5-sonnet-latest",
+  }
+  private baseURL: string
+
+  constructor(private options: AnthropicProviderOptions) {
+    this.baseURL = (options.baseURL || "https://api.anthropic.com").replace(/\/$/, "")
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+
+    if (request.json) {
+      system.push("Respond with a single valid JSON object and nothing else.")
+    }
+
+    // Erreurs réseau, corps illisible ou réponse inattendue : toujours une erreur typée
+    try {
+      const response = await fetch(`${this.baseURL}/v1/messages`, {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.options.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: system.join("\n\n") || undefined,
+          messages: request.messages
+            .filter(
+              (message): message is ChatMessage & { role: "user" | "assistant" } =>
+                message.role !== "system"
+            )
+            .map(({ role, content }) => ({ role, content })),
+          max_tokens: request.maxTokens || this.options.maxTokens || 4096,
+          temperature: request.temperature,
+        }),
+      })
+
+      if (!response.ok) {
+        const body = await response.text()
+        const message = `Anthropic API request failed (${response.status}): ${body}`
+        throw toPlaylistGeniusError(
+          { status: response.status, headers: response.headers, message },
+          { operation: "complete", provider: this.name, message }
+        )
+      }
+
+      const data = (await response.json()) as AnthropicMessageResponse
+      const text = data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join("")
+
+      return {
+        content: request.json ? stripCodeFence(text) : text,
+        model: data.model || request.model,
+        usage: data.usage && {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+        },
+      }
+    } catch (error) {
+      throw toPlaylistGeniusError(error, { operation: "complete", provider: this.name })
+    }
+  }
+}
+
+// ```json ... ``` -> ...
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  return match ? match[1] : text
+}
@@ -0,0 +1,38 @@
+import {
+  FixtureRule,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+} from "../types"
+
+// Fournisseur déterministe : renvoie la réponse de la première règle
+// correspondant au dernier message utilisateur
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture"
+  readonly defaultModels = { playlist: "fixture", analysis: "fixture" }
+
+  constructor(private rules: FixtureRule[]) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const prompt =
+      [...request.messages].reverse().find((message) => message.role === "user")
+        ?.content || ""
+
+    const rule = this.rules.find((candidate) =>
+      typeof candidate.match === "string"
+        ? prompt.includes(candidate.match)
+        : candidate.match.test(prompt)
+    )
+
+    if (!rule) {
+      throw new Error(`No fixture matches prompt: ${prompt.slice(0, 100)}`)
+    }
+
+    return {
+      content:
+        typeof rule.response === "string" ? rule.response : JSON.stringify(rule.response),
+      model: request.model,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    }
+  }
+}
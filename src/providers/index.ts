@@ -0,0 +1,56 @@
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMStreamChunk,
+  ModelSelection,
+} from "../types"
+import { OpenAIProvider } from "./openai"
+import { AnthropicProvider } from "./anthropic"
+import { FixtureProvider } from "./fixture"
+
+export { OpenAIProvider, AnthropicProvider, FixtureProvider }
+
+export const DEFAULT_MODELS: ModelSelection = {
+  playlist: "gpt-3.5-turbo",
+  analysis: "gpt-4-turbo-preview",
+}
+
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  return typeof (value as LLMProvider)?.complete === "function"
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: config.apiKey, baseURL: config.baseURL })
+    case "openai-compatible":
+      return new OpenAIProvider({ apiKey: config.apiKey, baseURL: config.baseURL })
+    case "anthropic":
+      return new AnthropicProvider(config)
+    case "fixture":
+      return new FixtureProvider(config.rules)
+  }
+}
+
+export function resolveModels(
+  provider: LLMProvider,
+  models: Partial<ModelSelection> = {}
+): ModelSelection {
+  return { ...DEFAULT_MODELS, ...provider.defaultModels, ...models }
+}
+
+// Réponse en flux si le fournisseur le permet, sinon réponse complète en un fragment
+export async function* streamCompletion(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  options: LLMCallOptions = {}
+): AsyncGenerator<LLMStreamChunk> {
+  if (provider.stream) {
+    yield* provider.stream(request, options)
+    return
+  }
+  const response = await provider.complete(request, options)
+  yield { content: response.content || "", model: response.model, usage: response.usage }
+}
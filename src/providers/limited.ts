@@ -0,0 +1,61 @@
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  LLMStreamChunk,
+  ModelSelection,
+} from "../types"
+import { ConcurrencyLimiter } from "../utils/concurrency"
+import { toCancelledError } from "../utils/abort"
+import { streamCompletion } from "./index"
+
+// Fait passer les appels LLM par la file partagée et leur transmet le signal
+// d'annulation de l'appel public en cours
+export class LimitedProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModels?: Partial<ModelSelection>
+
+  constructor(
+    private provider: LLMProvider,
+    private limiter: ConcurrencyLimiter,
+    private currentSignal: () => AbortSignal | undefined = () => undefined
+  ) {
+    this.name = provider.name
+    this.defaultModels = provider.defaultModels
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    const signal = options.signal || this.currentSignal()
+    try {
+      return await this.limiter.run(
+        () => this.provider.complete(request, { signal }),
+        signal
+      )
+    } catch (error) {
+      // Le SDK signale l'interruption par sa propre erreur
+      if (signal?.aborted) throw toCancelledError(signal.reason, "llm.complete")
+      throw error
+    }
+  }
+
+  // Le créneau reste occupé jusqu'à la fin de la lecture du flux
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const signal = options.signal || this.currentSignal()
+    const release = await this.limiter.acquire(signal)
+    try {
+      yield* streamCompletion(this.provider, request, { signal })
+    } catch (error) {
+      if (signal?.aborted) throw toCancelledError(signal.reason, "llm.stream")
+      throw error
+    } finally {
+      release()
+    }
+  }
+}
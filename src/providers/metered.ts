@@ -0,0 +1,64 @@
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMUsage,
+  ModelSelection,
+} from "../types"
+import { UsageLedger } from "../services/usageLedger"
+import { streamCompletion } from "./index"
+
+// Vérifie les budgets avant chaque appel (en réservant son estimation) et enregistre
+// la consommation réelle
+export class MeteredProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModels?: Partial<ModelSelection>
+
+  constructor(
+    private provider: LLMProvider,
+    private ledger: UsageLedger
+  ) {
+    this.name = provider.name
+    this.defaultModels = provider.defaultModels
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    const release = this.ledger.check(request)
+    let response: LLMCompletionResponse
+    try {
+      response = await this.provider.complete(request, options)
+    } finally {
+      release()
+    }
+    const model = response.model || request.model
+    this.ledger.record(request, model, response.usage, response.content)
+    return response
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const release = this.ledger.check(request)
+    let content = ""
+    let model = request.model
+    let usage: LLMUsage | undefined
+    try {
+      for await (const chunk of streamCompletion(this.provider, request, options)) {
+        content += chunk.content
+        model = chunk.model || model
+        usage = chunk.usage || usage
+        yield chunk
+      }
+    } finally {
+      // Un flux interrompu a tout de même consommé des tokens
+      release()
+      this.ledger.record(request, model, usage, content)
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import OpenAI from "openai"
+import { toPlaylistGeniusError } from "../errors"
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  LLMStreamChunk,
+} from "../types"
+
+export interface OpenAIProviderOptions {
+  apiKey?: string
+  baseURL?: string // endpoint compatible OpenAI (Ollama, llama.cpp server...)
+  name?: string
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string
+  private openai: OpenAI
+  private official: boolean
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name || (options.baseURL ? "openai-compatible" : "openai")
+    this.official = !options.baseURL
+    this.openai = new OpenAI({
+      // Les serveurs locaux n'exigent pas de clé mais le SDK en demande une
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL,
+    })
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    const completion = await this.openai.chat.completions
+      .create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.json ? { type: "json_object" } : undefined,
+        },
+        { signal: options.signal }
+      )
+      .catch((error) => {
+        throw toPlaylistGeniusError(error, { operation: "complete", provider: this.name })
+      })
+
+    return {
+      content: completion.choices[0]?.message.content ?? null,
+      model: completion.model || request.model,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+      },
+    }
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    try {
+      const stream = await this.openai.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.json ? { type: "json_object" } : undefined,
+          stream: true,
+          // Tous les serveurs compatibles ne connaissent pas cette option
+          stream_options: this.official ? { include_usage: true } : undefined,
+        },
+        { signal: options.signal }
+      )
+
+      for await (const chunk of stream) {
+        yield {
+          content: chunk.choices[0]?.delta?.content || "",
+          model: chunk.model || request.model,
+          usage: chunk.usage
+            ? {
+                promptTokens: chunk.usage.prompt_tokens,
+                completionTokens: chunk.usage.completion_tokens,
+              }
+            : undefined,
+        }
+      }
+    } catch (error) {
+      throw toPlaylistGeniusError(error, { operation: "stream", provider: this.name })
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  ModelSelection,
+} from "../types"
+import { FixtureStore } from "../services/fixtureStore"
+
+const toRecordedRequest = (request: LLMCompletionRequest) => ({
+  model: request.model,
+  messages: request.messages,
+  json: request.json,
+})
+
+// Transmet les appels au fournisseur réel et enregistre les réponses
+export class RecordingProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModels?: Partial<ModelSelection>
+
+  constructor(
+    private provider: LLMProvider,
+    private store: FixtureStore
+  ) {
+    this.name = `recording:${provider.name}`
+    this.defaultModels = provider.defaultModels
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    const response = await this.provider.complete(request, options)
+    this.store.record({ channel: "llm", request: toRecordedRequest(request), response })
+    return response
+  }
+}
+
+// Rejoue les réponses enregistrées sans accès réseau
+export class ReplayProvider implements LLMProvider {
+  readonly name = "replay"
+
+  constructor(
+    private store: FixtureStore,
+    readonly defaultModels?: Partial<ModelSelection>
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const entry = this.store.replay("llm", toRecordedRequest(request))
+    return entry.response as LLMCompletionResponse
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  LLMCallOptions,
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  LLMStreamChunk,
+  ModelSelection,
+} from "../types"
+import { Tracer } from "../services/tracing"
+import { streamCompletion } from "./index"
+
+// Ouvre un span par appel LLM, avec le modèle et les tokens consommés
+export class TracedProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModels?: Partial<ModelSelection>
+
+  constructor(
+    private provider: LLMProvider,
+    private tracer: Tracer
+  ) {
+    this.name = provider.name
+    this.defaultModels = provider.defaultModels
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): Promise<LLMCompletionResponse> {
+    return this.tracer.run(
+      "llm.complete",
+      async () => {
+        const response = await this.provider.complete(request, options)
+        if (response.usage) {
+          this.tracer.setAttributes({
+            "llm.prompt_tokens": response.usage.promptTokens,
+            "llm.completion_tokens": response.usage.completionTokens,
+          })
+        }
+        return response
+      },
+      {
+        kind: "client",
+        attributes: { "llm.provider": this.provider.name, "llm.model": request.model },
+      }
+    )
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const span = this.tracer.startSpan("llm.stream", {
+      kind: "client",
+      attributes: { "llm.provider": this.provider.name, "llm.model": request.model },
+    })
+    // finally : le span est aussi fermé quand le consommateur quitte la boucle
+    let failure: unknown
+    try {
+      for await (const chunk of streamCompletion(this.provider, request, options)) {
+        if (chunk.usage) {
+          span.setAttributes({
+            "llm.prompt_tokens": chunk.usage.promptTokens,
+            "llm.completion_tokens": chunk.usage.completionTokens,
+          })
+        }
+        yield chunk
+      }
+    } catch (error) {
+      failure = error
+      throw error
+    } finally {
+      span.end(failure)
+    }
+  }
+}
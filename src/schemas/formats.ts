@@ -0,0 +1,46 @@
+// Structures JSON décrites aux modèles, alignées sur les schémas de validation
+
+export const SONG_ANALYSIS_FORMAT = `Return a JSON object with this exact structure:
+    {
+      "title": "Song Name",
+      "artist": "Artist Name",
+      "features": {
+        "genre": ["main genre", "sub genre"],
+        "mood": ["mood"],
+        "tempo": 120,
+        "energy": 0.8,
+        "danceability": 0.6,
+        "valence": 0.5,
+        "acousticness": 0.2,
+        "instrumentalness": 0.1,
+        "popularity": 85,
+        "year": 1975,
+        "key": "C major",
+        "timeSignature": "4/4"
+      },
+      "themes": ["theme"],
+      "similarSongs": ["Song Title by Artist Name"],
+      "culturalImpact": "Short description"
+    }`
+
+export const ARTIST_FORMAT = `Return a JSON object with this exact structure:
+    {
+      "name": "Artist Name",
+      "genres": ["genre"],
+      "popularity": 80,
+      "monthlyListeners": 1000000,
+      "topTracks": ["Song Title"],
+      "similarArtists": ["Artist Name"],
+      "era": ["1990s"],
+      "description": "Brief description"
+    }`
+
+export const MUSIC_TREND_FORMAT = `Return a JSON object with this exact structure:
+    {
+      "genre": "Genre",
+      "popularity": 75,
+      "recentArtists": ["Artist Name"],
+      "recentSongs": ["Song Title by Artist Name"],
+      "growthRate": 5.2,
+      "prediction": "Short prediction"
+    }`
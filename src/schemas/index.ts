@@ -0,0 +1,230 @@
+import {
+  Song,
+  SongAnalysis,
+  Artist,
+  MusicTrend,
+  GenerationResult,
+  PlaylistRefinement,
+  RefinedSong,
+} from "../types"
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export interface SchemaResult<T> {
+  value?: T
+  issues: SchemaIssue[]
+}
+
+export type Schema<T> = (value: unknown, path: string) => SchemaResult<T>
+
+const ok = <T>(value: T): SchemaResult<T> => ({ value, issues: [] })
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({
+  issues: [{ path, message }],
+})
+
+const describe = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  return schema(value, "$")
+}
+
+// Primitives (avec coercion des formes approchantes)
+
+export const string = (): Schema<string> => (value, path) => {
+  if (typeof value === "string" && value.trim()) return ok(value.trim())
+  if (typeof value === "number") return ok(String(value))
+  return fail(path, `expected a non-empty string, got ${describe(value)}`)
+}
+
+export const number =
+  (range: { min?: number; max?: number } = {}): Schema<number> =>
+  (value, path) => {
+    let parsed = value
+    // "120 BPM", "85/100" -> premier nombre trouvé
+    if (typeof value === "string") {
+      const match = value.match(/-?\d+(\.\d+)?/)
+      parsed = match ? parseFloat(match[0]) : NaN
+    }
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+      return fail(path, `expected a number, got ${JSON.stringify(value)}`)
+    }
+    if (range.min !== undefined && parsed < range.min) {
+      return fail(path, `expected a number >= ${range.min}, got ${parsed}`)
+    }
+    if (range.max !== undefined && parsed > range.max) {
+      return fail(path, `expected a number <= ${range.max}, got ${parsed}`)
+    }
+    return ok(parsed)
+  }
+
+// Valeur entre 0 et 1, accepte aussi les pourcentages (0-100)
+export const ratio = (): Schema<number> => (value, path) => {
+  const result = number({ min: 0, max: 100 })(value, path)
+  if (result.value === undefined) return result
+  return ok(result.value > 1 ? result.value / 100 : result.value)
+}
+
+// Durée en secondes, accepte "3:45"
+export const durationSeconds = (): Schema<number> => (value, path) => {
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(\d+):(\d{1,2})$/)
+    if (match) return ok(parseInt(match[1], 10) * 60 + parseInt(match[2], 10))
+  }
+  return number({ min: 1 })(value, path)
+}
+
+// Liste de chaînes, accepte une chaîne unique ("rock, indie")
+export const stringList = (): Schema<string[]> => (value, path) => {
+  if (typeof value === "string") {
+    return ok(
+      value
+        .split(/[,;/]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  }
+  if (!Array.isArray(value)) {
+    return fail(path, `expected an array of strings, got ${describe(value)}`)
+  }
+  return array(string())(value, path)
+}
+
+// Combinateurs
+
+export const optional =
+  <T>(schema: Schema<T>, defaultValue?: T): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? ok(defaultValue) : schema(value, path)
+
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      return fail(path, `expected an array, got ${describe(value)}`)
+    }
+    const values: T[] = []
+    const issues: SchemaIssue[] = []
+    value.forEach((entry, index) => {
+      const result = item(entry, `${path}[${index}]`)
+      issues.push(...result.issues)
+      if (result.value !== undefined) values.push(result.value)
+    })
+    return issues.length ? { issues } : ok(values)
+  }
+
+export const object =
+  <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (!isObject(value)) {
+      return fail(path, `expected an object, got ${describe(value)}`)
+    }
+
+    const keys = Object.keys(shape)
+    const entries = Object.keys(value)
+    // { "analysis": { ... } } -> { ... }
+    if (
+      entries.length === 1 &&
+      !keys.includes(entries[0]) &&
+      isObject(value[entries[0]])
+    ) {
+      return object<T>(shape)(value[entries[0]], `${path}.${entries[0]}`)
+    }
+
+    const result: Record<string, unknown> = {}
+    const issues: SchemaIssue[] = []
+    keys.forEach((key) => {
+      const field = shape[key as keyof T](value[key], `${path}.${key}`)
+      issues.push(...field.issues)
+      if (field.value !== undefined) result[key] = field.value
+    })
+    return issues.length ? { issues } : ok(result as T)
+  }
+
+// Schémas du domaine
+
+export const songSchema: Schema<Song> = object<Song>({
+  title: string(),
+  artist: string(),
+  genre: stringList(),
+  tempo: number({ min: 1 }),
+  popularity: number({ min: 0, max: 100 }),
+  year: number({ min: 1000, max: 3000 }),
+  duration: durationSeconds(),
+})
+
+export const generationResultSchema: Schema<GenerationResult> = object<GenerationResult>({
+  songs: array(songSchema),
+  explanation: optional(string(), "") as Schema<string>,
+  tags: optional(stringList(), []) as Schema<string[]>,
+})
+
+export type PlaylistSummary = Pick<GenerationResult, "explanation" | "tags">
+
+// Partie hors chansons d'une réponse de génération (lue en fin de streaming)
+export const playlistSummarySchema: Schema<PlaylistSummary> = object<PlaylistSummary>({
+  explanation: optional(string(), "") as Schema<string>,
+  tags: optional(stringList(), []) as Schema<string[]>,
+})
+
+const keptSongSchema = object<{ keep: number }>({ keep: number({ min: 1 }) })
+
+export const refinedSongSchema: Schema<RefinedSong> = (value, path) =>
+  isObject(value) && "keep" in value
+    ? keptSongSchema(value, path)
+    : songSchema(value, path)
+
+export const playlistRefinementSchema: Schema<PlaylistRefinement> =
+  object<PlaylistRefinement>({
+    songs: array(refinedSongSchema),
+    explanation: optional(string(), "") as Schema<string>,
+    tags: optional(stringList(), []) as Schema<string[]>,
+  })
+
+export const songAnalysisSchema: Schema<SongAnalysis> = object<SongAnalysis>({
+  title: string(),
+  artist: string(),
+  features: object<SongAnalysis["features"]>({
+    genre: stringList(),
+    mood: stringList(),
+    tempo: number({ min: 1 }),
+    energy: ratio(),
+    danceability: ratio(),
+    valence: ratio(),
+    acousticness: ratio(),
+    instrumentalness: ratio(),
+    popularity: number({ min: 0, max: 100 }),
+    year: number({ min: 1000, max: 3000 }),
+    key: string(),
+    timeSignature: string(),
+  }),
+  themes: optional(stringList(), []) as Schema<string[]>,
+  similarSongs: optional(stringList(), []) as Schema<string[]>,
+  culturalImpact: optional(string()),
+})
+
+export const artistSchema: Schema<Artist> = object<Artist>({
+  name: string(),
+  genres: stringList(),
+  popularity: number({ min: 0, max: 100 }),
+  monthlyListeners: optional(number({ min: 0 })),
+  topTracks: optional(stringList(), []) as Schema<string[]>,
+  similarArtists: optional(stringList(), []) as Schema<string[]>,
+  era: optional(stringList(), []) as Schema<string[]>,
+  description: optional(string(), "") as Schema<string>,
+})
+
+export const musicTrendSchema: Schema<MusicTrend> = object<MusicTrend>({
+  genre: string(),
+  popularity: number({ min: 0, max: 100 }),
+  recentArtists: stringList(),
+  recentSongs: optional(stringList(), []) as Schema<string[]>,
+  growthRate: number(),
+  prediction: optional(string(), "") as Schema<string>,
+})
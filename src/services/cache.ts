@@ -1,65 +1,412 @@
-import NodeCache from "node-cache"
-import { CacheKey } from "../types"
+import { readFile, writeFile } from "fs/promises"
+import {
+  CacheEntryInfo,
+  CacheKey,
+  CacheKeySchema,
+  CacheOptions,
+  CachePolicy,
+  CacheStats,
+  CacheStore,
+  CacheTypeStats,
+} from "../types"
+import { createCacheStore } from "./cacheStores"
+import { ValidationError } from "../errors"
+import { ContextLogger } from "./logger"
 import crypto from "crypto"
 
+const HOUR = 3600
+const DAY = 24 * HOUR
+
+// Les audio features ne changent jamais ; les tendances vieillissent en une journée
+export const DEFAULT_CACHE_POLICIES: Record<string, CachePolicy> = {
+  audio_features: { ttl: 30 * DAY },
+  artist: { ttl: 7 * DAY },
+  song_analysis: { ttl: 30 * DAY },
+  similar_artists: { ttl: 7 * DAY },
+  trend: { ttl: DAY, staleWhileRevalidate: DAY },
+  user_taste_analysis: { ttl: 6 * HOUR },
+}
+
+// Incrémenté quand le format des clés change : les anciennes entrées ne sont plus lues
+const CACHE_KEY_FORMAT_VERSION = 2
+
+const PLAYLIST_TEXT_FIELDS = ["genres", "similarArtists", "excludedArtists"]
+
+export const DEFAULT_CACHE_KEY_SCHEMAS: Record<string, CacheKeySchema> = {
+  playlist: {
+    sets: PLAYLIST_TEXT_FIELDS,
+    caseInsensitive: [...PLAYLIST_TEXT_FIELDS, "mood", "type"],
+  },
+  song_analysis: { caseInsensitive: ["title", "artist"] },
+  similar_artists: { caseInsensitive: ["artist"] },
+  trend: { caseInsensitive: ["genre"] },
+}
+
+const CACHE_EXPORT_VERSION = 1
+
+// Valeur stockée avec sa clé d'origine et sa date de fraîcheur (stale-while-revalidate)
+interface CacheEntry<T> {
+  value: T
+  key: CacheKey
+  storedAt: number // timestamp (ms)
+  freshUntil?: number // timestamp (ms) ; absent : toujours frais
+}
+
+interface CacheExportFile {
+  version: number
+  exportedAt: number
+  entries: Array<CacheEntry<unknown> & { storeKey: string }>
+}
+
 export class CacheService {
-  private cache: NodeCache
+  private store: CacheStore
+  private stdTTL: number
+  private policies: Record<string, CachePolicy>
+  private keySchemas: Record<string, CacheKeySchema>
+  private keyVersions: Record<string, string> = {}
+  private counters = new Map<string, { hits: number; misses: number }>()
+  private inFlight = new Map<string, Promise<unknown>>()
+  private revalidating = new Set<string>()
+  private keysByType = new Map<string, Set<string>>() // ordre d'écriture, pour maxEntries
 
-  constructor(options: NodeCache.Options = {}) {
-    this.cache = new NodeCache({
-      stdTTL: options.stdTTL || 3600,
-      checkperiod: options.checkperiod || 600,
-      maxKeys: options.maxKeys || 1000,
+  constructor(
+    options: CacheOptions = {},
+    private logger?: ContextLogger,
+    private now: () => number = Date.now
+  ) {
+    this.stdTTL = options.stdTTL || 3600
+    this.policies = { ...DEFAULT_CACHE_POLICIES, ...options.policies }
+    this.keySchemas = { ...DEFAULT_CACHE_KEY_SCHEMAS, ...options.keySchemas }
+    this.store = createCacheStore(options.store, {
+      checkperiod: options.checkperiod,
+      maxKeys: options.maxKeys,
     })
   }
 
-  private normalizeValue(value: any): any {
+  // Versions calculées (ex. : empreintes des prompts) ajoutées aux clés de chaque type
+  setKeyVersions(versions: Record<string, string>): void {
+    this.keyVersions = { ...this.keyVersions, ...versions }
+  }
+
+  // L'ordre des tableaux est conservé sauf pour les champs déclarés comme ensembles
+  private normalizeValue(value: any, path: string, schema: CacheKeySchema): any {
+    if (typeof value === "string" && schema.caseInsensitive?.includes(path)) {
+      return value.replace(/\s+/g, " ").trim().toLowerCase()
+    }
     if (Array.isArray(value)) {
-      // Trie les tableaux pour assurer la cohérence quelle que soit leur ordre
-      return [...value].sort()
+      const items = value.map((item) => this.normalizeValue(item, path, schema))
+      if (!schema.sets?.includes(path)) return items
+      return [...new Set(items.map((item) => JSON.stringify(item)))]
+        .sort()
+        .map((item) => JSON.parse(item))
     }
     if (typeof value === "object" && value !== null) {
       // Récursivement normalise les objets
       return Object.keys(value)
         .sort()
         .reduce((obj: any, key) => {
-          obj[key] = this.normalizeValue(value[key])
+          const fieldPath = path ? `${path}.${key}` : key
+          if (value[key] === undefined || schema.ignored?.includes(fieldPath)) return obj
+          obj[key] = this.normalizeValue(value[key], fieldPath, schema)
           return obj
         }, {})
     }
     return value
   }
 
-  private generateCacheKey(key: CacheKey): string {
+  generateCacheKey(key: CacheKey): string {
+    const schema = this.keySchemas[key.type] || {}
     // Normalise la clé avant de la hasher
     const normalizedKey = {
+      format: CACHE_KEY_FORMAT_VERSION,
+      version: [schema.version, this.keyVersions[key.type]].filter(Boolean).join(":"),
       type: key.type,
-      criteria: this.normalizeValue(key.criteria),
+      criteria: this.normalizeValue(key.criteria, "", schema),
     }
 
-    return crypto.createHash("sha256").update(JSON.stringify(normalizedKey)).digest("hex")
+    const hash = crypto
+      .createHash("sha256")
+      .update(JSON.stringify(normalizedKey))
+      .digest("hex")
+    return key.namespace ? `${key.namespace}:${hash}` : hash
+  }
+
+  getPolicy(type: string): CachePolicy {
+    return this.policies[type] || {}
   }
 
-  get<T = any>(key: CacheKey): T | undefined {
-    const hashKey = this.generateCacheKey(key)
-    return this.cache.get<T>(hashKey)
+  // Renvoie uniquement les entrées fraîches
+  async get<T = any>(key: CacheKey): Promise<T | undefined> {
+    const entry = await this.read<T>(this.generateCacheKey(key), key.type)
+    const fresh = entry && !this.isStale(entry)
+    this.count(key.type, !!fresh)
+    return fresh ? entry.value : undefined
   }
 
-  set<T = any>(key: CacheKey, value: T): void {
-    const hashKey = this.generateCacheKey(key)
-    this.cache.set(hashKey, value)
+  async set<T = any>(key: CacheKey, value: T): Promise<void> {
+    await this.write(this.generateCacheKey(key), key, value)
   }
 
-  invalidate(key: CacheKey): void {
-    const hashKey = this.generateCacheKey(key)
-    this.cache.del(hashKey)
+  // Cache-aside : les appels concurrents sur une même clé partagent un seul calcul,
+  // et une entrée périmée (dans la fenêtre staleWhileRevalidate) est servie pendant son recalcul
+  // isCacheable permet d'écarter une valeur incomplète (elle est renvoyée sans être stockée)
+  getOrCompute<T>(
+    key: CacheKey,
+    compute: () => Promise<T>,
+    isCacheable: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const storeKey = this.generateCacheKey(key)
+    const pending = this.inFlight.get(storeKey)
+    if (pending) return pending as Promise<T>
+
+    const lookup = (async () => {
+      const entry = await this.read<T>(storeKey, key.type)
+
+      if (entry && !this.isStale(entry)) {
+        this.count(key.type, true)
+        this.logger?.debug("Cache hit", { type: key.type })
+        return entry.value
+      }
+
+      if (entry) {
+        this.count(key.type, true)
+        this.logger?.debug("Serving stale cache entry while revalidating", {
+          type: key.type,
+        })
+        this.revalidate(storeKey, key, compute, isCacheable)
+        return entry.value
+      }
+
+      this.count(key.type, false)
+      const value = await compute()
+      if (isCacheable(value)) await this.write(storeKey, key, value)
+      return value
+    })()
+
+    this.inFlight.set(storeKey, lookup)
+    return lookup.finally(() => this.inFlight.delete(storeKey))
+  }
+
+  async invalidate(key: CacheKey): Promise<void> {
+    await this.store.delete([this.generateCacheKey(key)])
+  }
+
+  async clear(): Promise<void> {
+    this.keysByType.clear()
+    await this.store.clear()
   }
 
-  clear(): void {
-    this.cache.flushAll()
+  // Supprime toutes les entrées d'un namespace (ex. : données d'un utilisateur), sans
+  // toucher aux namespaces qui le prolongent ("user:a" n'efface pas "user:a:b")
+  async clearNamespace(namespace: string): Promise<void> {
+    const prefix = `${namespace}:`
+    const storeKeys = await this.store.keys(prefix)
+    await this.store.delete(
+      storeKeys.filter((key) => !key.slice(prefix.length).includes(":"))
+    )
   }
 
-  getStats() {
-    return this.cache.getStats()
+  // Invalide par type ou selon un prédicat sur la clé d'origine ; renvoie le nombre d'entrées supprimées
+  async invalidateWhere(filter: string | ((key: CacheKey) => boolean)): Promise<number> {
+    const matches =
+      typeof filter === "string" ? (key: CacheKey) => key.type === filter : filter
+    const storeKeys = (await this.readAll())
+      .filter(({ entry }) => matches(entry.key))
+      .map(({ storeKey }) => storeKey)
+
+    await this.store.delete(storeKeys)
+    this.keysByType.forEach((keys) => storeKeys.forEach((key) => keys.delete(key)))
+    return storeKeys.length
+  }
+
+  async listEntries(type?: string): Promise<CacheEntryInfo[]> {
+    return (await this.readAll())
+      .filter(({ entry }) => !type || entry.key.type === type)
+      .map(({ entry }) => this.describe(entry))
+      .sort((a, b) => b.storedAt - a.storedAt)
+  }
+
+  async inspect<T = any>(
+    key: CacheKey
+  ): Promise<(CacheEntryInfo & { value: T }) | undefined> {
+    const entry = await this.read<T>(this.generateCacheKey(key), key.type)
+    return entry && { ...this.describe(entry), value: entry.value }
+  }
+
+  // Export JSON : les clés stockées sont conservées telles quelles, une entrée
+  // produite par un autre prompt reste donc ignorée après import
+  async exportTo(path: string): Promise<number> {
+    const entries = (await this.readAll()).map(({ storeKey, entry }) => ({
+      ...entry,
+      storeKey,
+    }))
+    const file: CacheExportFile = {
+      version: CACHE_EXPORT_VERSION,
+      exportedAt: this.now(),
+      entries,
+    }
+    await writeFile(path, JSON.stringify(file))
+    return entries.length
+  }
+
+  // Préchauffe le cache ; les entrées déjà hors de leur fenêtre de validité sont ignorées.
+  // Comme pour set, les entrées importées comptent dans la limite maxEntries de leur type
+  async importFrom(path: string): Promise<number> {
+    const file: CacheExportFile = JSON.parse(await readFile(path, "utf8"))
+    if (file.version !== CACHE_EXPORT_VERSION) {
+      throw new ValidationError(`Unsupported cache export version: ${file.version}`)
+    }
+
+    let imported = 0
+    const entries = [...file.entries].sort((a, b) => a.storedAt - b.storedAt)
+    for (const { storeKey, ...entry } of entries) {
+      const ttl = this.remainingTtl(entry)
+      if (ttl === undefined) continue
+      await this.store.set(storeKey, entry, ttl)
+      await this.enforceMaxEntries(
+        storeKey,
+        entry.key.type,
+        this.getPolicy(entry.key.type)
+      )
+      imported++
+    }
+    return imported
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const byType: Record<string, CacheTypeStats> = {}
+    let hits = 0
+    let misses = 0
+    this.counters.forEach((counter, type) => {
+      hits += counter.hits
+      misses += counter.misses
+      const reads = counter.hits + counter.misses
+      byType[type] = { ...counter, hitRatio: reads ? counter.hits / reads : 0 }
+    })
+
+    return {
+      hits,
+      misses,
+      keys: (await this.store.keys()).length,
+      byType,
+    }
+  }
+
+  private count(type: string, hit: boolean): void {
+    const counter = this.counters.get(type) || { hits: 0, misses: 0 }
+    if (hit) counter.hits++
+    else counter.misses++
+    this.counters.set(type, counter)
+  }
+
+  private describe(entry: CacheEntry<unknown>): CacheEntryInfo {
+    return {
+      key: entry.key,
+      storedAt: entry.storedAt,
+      age: this.now() - entry.storedAt,
+      fresh: !this.isStale(entry),
+      freshUntil: entry.freshUntil,
+    }
+  }
+
+  // Durée de stockage restante (s), 0 si sans expiration, undefined si l'entrée est périmée
+  private remainingTtl(entry: CacheEntry<unknown>): number | undefined {
+    if (entry.freshUntil === undefined) return 0
+    const expiresAt =
+      entry.freshUntil + (this.getPolicy(entry.key.type).staleWhileRevalidate || 0) * 1000
+    const remaining = Math.ceil((expiresAt - this.now()) / 1000)
+    return remaining > 0 ? remaining : undefined
+  }
+
+  private async readAll(): Promise<
+    Array<{ storeKey: string; entry: CacheEntry<unknown> }>
+  > {
+    const storeKeys = await this.store.keys()
+    const entries = await Promise.all(
+      storeKeys.map(async (storeKey) => ({
+        storeKey,
+        entry: await this.store.get<CacheEntry<unknown>>(storeKey),
+      }))
+    )
+    return entries.filter(
+      (item): item is { storeKey: string; entry: CacheEntry<unknown> } =>
+        !!item.entry?.key
+    )
+  }
+
+  private revalidate<T>(
+    storeKey: string,
+    key: CacheKey,
+    compute: () => Promise<T>,
+    isCacheable: (value: T) => boolean
+  ): void {
+    if (this.revalidating.has(storeKey)) return
+    this.revalidating.add(storeKey)
+
+    compute()
+      .then((value) =>
+        isCacheable(value) ? this.write(storeKey, key, value) : undefined
+      )
+      .catch((error) =>
+        this.logger?.error("Cache revalidation failed", error, { type: key.type })
+      )
+      .finally(() => this.revalidating.delete(storeKey))
+  }
+
+  private isStale(entry: CacheEntry<unknown>): boolean {
+    return entry.freshUntil !== undefined && entry.freshUntil <= this.now()
+  }
+
+  // Un store indisponible se comporte comme un cache vide plutôt que de faire échouer l'appel
+  private async read<T>(
+    storeKey: string,
+    type: string
+  ): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get<CacheEntry<T>>(storeKey)
+    } catch (error) {
+      this.logger?.error("Cache read failed", error, { type })
+      return undefined
+    }
+  }
+
+  private async write<T>(storeKey: string, key: CacheKey, value: T): Promise<void> {
+    const { type } = key
+    const policy = this.getPolicy(type)
+    const ttl = policy.ttl ?? this.stdTTL
+    const now = this.now()
+    const entry: CacheEntry<T> = {
+      value,
+      key,
+      storedAt: now,
+      freshUntil: ttl > 0 ? now + ttl * 1000 : undefined,
+    }
+
+    try {
+      // L'entrée reste stockée pendant la fenêtre de revalidation
+      await this.store.set(
+        storeKey,
+        entry,
+        ttl > 0 ? ttl + (policy.staleWhileRevalidate || 0) : 0
+      )
+      await this.enforceMaxEntries(storeKey, type, policy)
+    } catch (error) {
+      this.logger?.error("Cache write failed", error, { type })
+    }
+  }
+
+  // Éviction des entrées les plus anciennes écrites par cette instance
+  private async enforceMaxEntries(storeKey: string, type: string, policy: CachePolicy) {
+    if (!policy.maxEntries) return
+
+    const keys = this.keysByType.get(type) || new Set<string>()
+    keys.delete(storeKey)
+    keys.add(storeKey)
+    this.keysByType.set(type, keys)
+
+    const evicted = [...keys].slice(0, Math.max(0, keys.size - policy.maxEntries))
+    if (!evicted.length) return
+    evicted.forEach((key) => keys.delete(key))
+    await this.store.delete(evicted)
   }
 }
@@ -0,0 +1,358 @@
+import NodeCache from "node-cache"
+import { existsSync } from "fs"
+import { readFile, writeFile } from "fs/promises"
+import { Socket, createConnection } from "net"
+import { CacheStore, CacheStoreOption, RedisCacheOptions } from "../types"
+
+export interface MemoryCacheStoreOptions {
+  checkperiod?: number
+  maxKeys?: number
+}
+
+// Store par défaut : en mémoire, perdu au redémarrage
+export class MemoryCacheStore implements CacheStore {
+  private cache: NodeCache
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.cache = new NodeCache({
+      stdTTL: 0,
+      checkperiod: options.checkperiod || 600,
+      maxKeys: options.maxKeys || 1000,
+    })
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key)
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.cache.set(key, value, ttlSeconds)
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    this.cache.del(keys)
+  }
+
+  async keys(prefix: string = ""): Promise<string[]> {
+    return this.cache.keys().filter((key) => key.startsWith(prefix))
+  }
+
+  async clear(): Promise<void> {
+    this.cache.flushAll()
+  }
+}
+
+interface FileCacheEntry {
+  value: unknown
+  expiresAt?: number
+}
+
+// Fichier JSON unique, relu au démarrage : conserve les analyses entre deux exécutions
+export class FileCacheStore implements CacheStore {
+  private entries?: Map<string, FileCacheEntry>
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private path: string,
+    private now: () => number = Date.now
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entries = await this.load()
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    if (this.isExpired(entry)) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry.value as T
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const entries = await this.load()
+    entries.set(key, {
+      value,
+      expiresAt: ttlSeconds > 0 ? this.now() + ttlSeconds * 1000 : undefined,
+    })
+    return this.persist()
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const entries = await this.load()
+    keys.forEach((key) => entries.delete(key))
+    return this.persist()
+  }
+
+  async keys(prefix: string = ""): Promise<string[]> {
+    const entries = await this.load()
+    return [...entries.entries()]
+      .filter(([key, entry]) => key.startsWith(prefix) && !this.isExpired(entry))
+      .map(([key]) => key)
+  }
+
+  async clear(): Promise<void> {
+    ;(await this.load()).clear()
+    return this.persist()
+  }
+
+  private isExpired(entry: FileCacheEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= this.now()
+  }
+
+  private async load(): Promise<Map<string, FileCacheEntry>> {
+    if (!this.entries) {
+      const content = existsSync(this.path) ? await readFile(this.path, "utf8") : "{}"
+      this.entries = new Map(Object.entries(JSON.parse(content)))
+    }
+    return this.entries
+  }
+
+  // Écritures sérialisées ; les entrées expirées ne sont pas réécrites
+  private persist(): Promise<void> {
+    const next = this.queue.then(() => {
+      const live = [...this.entries!.entries()].filter(
+        ([, entry]) => !this.isExpired(entry)
+      )
+      return writeFile(this.path, JSON.stringify(Object.fromEntries(live)))
+    })
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+}
+
+type RespValue = string | number | null | RespValue[]
+
+// Encode une commande au format RESP (tableau de bulk strings)
+function encodeCommand(args: string[]): string {
+  return (
+    `*${args.length}\r\n` +
+    args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")
+  )
+}
+
+// Décode une réponse RESP ; undefined tant qu'elle est incomplète
+function parseReply(
+  buffer: Buffer,
+  offset = 0
+): { value: RespValue | Error; next: number } | undefined {
+  const lineEnd = buffer.indexOf("\r\n", offset)
+  if (lineEnd === -1) return undefined
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString("utf8", offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case "+":
+      return { value: line, next }
+    case "-":
+      return { value: new Error(line), next }
+    case ":":
+      return { value: Number(line), next }
+    case "$": {
+      const length = Number(line)
+      if (length === -1) return { value: null, next }
+      if (buffer.length < next + length + 2) return undefined
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        next: next + length + 2,
+      }
+    }
+    case "*": {
+      const count = Number(line)
+      if (count === -1) return { value: null, next }
+      const items: RespValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return undefined
+        items.push(item.value as RespValue)
+        position = item.next
+      }
+      return { value: items, next: position }
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`)
+  }
+}
+
+// Client minimal parlant le protocole Redis : une connexion, réponses dans l'ordre.
+// Une réponse illisible ou trop lente abandonne la connexion ; la commande suivante
+// en ouvre une nouvelle
+class RespConnection {
+  private socket?: Socket
+  private connecting?: Promise<Socket>
+  private buffer = Buffer.alloc(0)
+  private pending: Array<{
+    resolve: (value: RespValue) => void
+    reject: (error: Error) => void
+  }> = []
+  private timeoutMs: number
+
+  constructor(private options: RedisCacheOptions) {
+    this.timeoutMs = options.commandTimeoutMs ?? 5000
+  }
+
+  async command(...args: string[]): Promise<RespValue> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  close(): void {
+    if (this.socket) this.reset(this.socket, new Error("Redis connection closed"))
+  }
+
+  private send(socket: Socket, args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          this.reset(
+            socket,
+            new Error(`Redis ${args[0]} timed out after ${this.timeoutMs}ms`)
+          ),
+        this.timeoutMs
+      )
+      this.pending.push({
+        resolve: (value) => {
+          clearTimeout(timer)
+          resolve(value)
+        },
+        reject: (error) => {
+          clearTimeout(timer)
+          reject(error)
+        },
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<Socket> {
+    if (!this.connecting) {
+      this.connecting = new Promise<Socket>((resolve, reject) => {
+        const timer = setTimeout(
+          () => fail(new Error(`Redis connection timed out after ${this.timeoutMs}ms`)),
+          this.timeoutMs
+        )
+        const fail = (error: Error) => {
+          clearTimeout(timer)
+          this.reset(socket, error)
+          reject(error)
+        }
+        const socket = createConnection(
+          { host: this.options.host || "127.0.0.1", port: this.options.port || 6379 },
+          async () => {
+            clearTimeout(timer)
+            try {
+              if (this.options.password)
+                await this.send(socket, ["AUTH", this.options.password])
+              if (this.options.db)
+                await this.send(socket, ["SELECT", String(this.options.db)])
+              resolve(socket)
+            } catch (error) {
+              fail(error as Error)
+            }
+          }
+        )
+        this.socket = socket
+        socket.on("data", (chunk) => this.onData(socket, chunk))
+        socket.on("error", fail)
+        socket.on("close", () => this.reset(socket, new Error("Redis connection closed")))
+      })
+    }
+    return this.connecting
+  }
+
+  private onData(socket: Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    try {
+      let reply = parseReply(this.buffer)
+      while (reply) {
+        this.buffer = this.buffer.subarray(reply.next)
+        const waiter = this.pending.shift()
+        if (reply.value instanceof Error) waiter?.reject(reply.value)
+        else waiter?.resolve(reply.value)
+        reply = this.buffer.length ? parseReply(this.buffer) : undefined
+      }
+    } catch (error) {
+      this.reset(socket, error as Error)
+    }
+  }
+
+  // Fait échouer les commandes en attente et oublie la connexion ; sans effet pour
+  // une ancienne connexion déjà remplacée
+  private reset(socket: Socket, error: Error): void {
+    if (this.socket !== socket) return
+    this.socket = undefined
+    this.connecting = undefined
+    this.buffer = Buffer.alloc(0)
+    this.pending.splice(0).forEach((waiter) => waiter.reject(error))
+    socket.destroy()
+  }
+}
+
+// Store partagé entre processus (Redis ou tout serveur compatible)
+export class RedisCacheStore implements CacheStore {
+  private connection: RespConnection
+  private prefix: string
+
+  constructor(options: RedisCacheOptions = {}) {
+    this.connection = new RespConnection(options)
+    this.prefix = options.keyPrefix ?? "playlist-genius:"
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.connection.command("GET", this.prefix + key)
+    return typeof value === "string" ? (JSON.parse(value) as T) : undefined
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const args = ["SET", this.prefix + key, JSON.stringify(value)]
+    if (ttlSeconds > 0) args.push("EX", String(Math.ceil(ttlSeconds)))
+    await this.connection.command(...args)
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (!keys.length) return
+    await this.connection.command("DEL", ...keys.map((key) => this.prefix + key))
+  }
+
+  async keys(prefix: string = ""): Promise<string[]> {
+    const found: string[] = []
+    let cursor = "0"
+    do {
+      const [nextCursor, batch] = (await this.connection.command(
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${this.escapePattern(this.prefix + prefix)}*`,
+        "COUNT",
+        "100"
+      )) as [string, string[]]
+      found.push(...batch.map((key) => key.slice(this.prefix.length)))
+      cursor = nextCursor
+    } while (cursor !== "0")
+    return found
+  }
+
+  async clear(): Promise<void> {
+    await this.delete(await this.keys())
+  }
+
+  close(): void {
+    this.connection.close()
+  }
+
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, "\\$&")
+  }
+}
+
+export function createCacheStore(
+  option: CacheStoreOption | undefined,
+  memoryOptions: MemoryCacheStoreOptions = {}
+): CacheStore {
+  if (!option || option === "memory") return new MemoryCacheStore(memoryOptions)
+  if ("file" in option) return new FileCacheStore(option.file)
+  if ("redis" in option) return new RedisCacheStore(option.redis)
+  return option
+}
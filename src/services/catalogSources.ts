@@ -0,0 +1,38 @@
+import { readFileSync } from "fs"
+import { CatalogSource, CatalogTrack, Song } from "../types"
+import { SpotifyService, toCatalogTrack } from "./spotify"
+import { similarity } from "../utils/text"
+
+export class SpotifyCatalogSource implements CatalogSource {
+  readonly name = "spotify"
+
+  constructor(private spotifyService: SpotifyService) {}
+
+  async search(song: Song): Promise<CatalogTrack[]> {
+    const match = await this.spotifyService.matchTrack(song)
+    return [match.track, ...match.alternatives.map((alternative) => alternative.track)]
+      .filter((track): track is SpotifyApi.TrackObjectFull => !!track)
+      .map(toCatalogTrack)
+  }
+}
+
+// Catalogue JSON local ([{ id, title, artist, year?, duration? }]) pour le mode hors ligne
+export class LocalCatalogSource implements CatalogSource {
+  readonly name = "local"
+  private tracks: CatalogTrack[]
+
+  constructor(pathOrTracks: string | CatalogTrack[]) {
+    this.tracks =
+      typeof pathOrTracks === "string"
+        ? JSON.parse(readFileSync(pathOrTracks, "utf8"))
+        : pathOrTracks
+  }
+
+  async search(song: Song): Promise<CatalogTrack[]> {
+    return this.tracks.filter(
+      (track) =>
+        similarity(track.title, song.title) >= 0.5 &&
+        similarity(track.artist, song.artist) >= 0.5
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { PlaylistCriteria, Song, RejectedSong, RejectionReason } from "../types"
+import { normalizeArtistName, similarity, splitArtists } from "../utils/text"
+
+export const POPULARITY_BUCKETS: Record<
+  NonNullable<PlaylistCriteria["popularity"]>,
+  { min: number; max: number }
+> = {
+  low: { min: 0, max: 39 },
+  medium: { min: 40, max: 69 },
+  high: { min: 70, max: 100 },
+}
+
+export interface CriteriaValidatorOptions {
+  artistSimilarityThreshold?: number // entre 0 et 1
+}
+
+export interface CriteriaValidation {
+  accepted: Song[]
+  rejected: RejectedSong[]
+}
+
+export class CriteriaValidator {
+  private artistSimilarityThreshold: number
+
+  constructor(options: CriteriaValidatorOptions = {}) {
+    this.artistSimilarityThreshold = options.artistSimilarityThreshold ?? 0.85
+  }
+
+  validate(songs: Song[], criteria: PlaylistCriteria): CriteriaValidation {
+    const accepted: Song[] = []
+    const rejected: RejectedSong[] = []
+
+    songs.forEach((song) => {
+      const reasons = this.checkSong(song, criteria)
+      if (reasons.length) {
+        rejected.push({ song, reasons })
+      } else {
+        accepted.push(song)
+      }
+    })
+
+    return { accepted, rejected }
+  }
+
+  checkSong(song: Song, criteria: PlaylistCriteria): RejectionReason[] {
+    const reasons: RejectionReason[] = []
+
+    const excludedArtist = criteria.excludedArtists?.find((name) =>
+      this.matchesArtist(song.artist, name)
+    )
+    if (excludedArtist) {
+      reasons.push({
+        code: "excluded_artist",
+        message: `Artist "${song.artist}" matches excluded artist "${excludedArtist}"`,
+      })
+    }
+
+    const { start, end } = criteria.yearRange || {}
+    if ((start && !(song.year >= start)) || (end && !(song.year <= end))) {
+      reasons.push({
+        code: "year_out_of_range",
+        message: `Year ${song.year} is outside ${start ?? "…"}-${end ?? "…"}`,
+      })
+    }
+
+    if (criteria.popularity) {
+      const bucket = POPULARITY_BUCKETS[criteria.popularity]
+      if (!(song.popularity >= bucket.min && song.popularity <= bucket.max)) {
+        reasons.push({
+          code: "popularity_mismatch",
+          message: `Popularity ${song.popularity} is not in the "${criteria.popularity}" range (${bucket.min}-${bucket.max})`,
+        })
+      }
+    }
+
+    return reasons
+  }
+
+  matchesArtist(artist: string, excluded: string): boolean {
+    const target = normalizeArtistName(excluded)
+    if (!target) return false
+
+    const candidates = [artist, ...splitArtists(artist)].map(normalizeArtistName)
+    return candidates.some(
+      (candidate) =>
+        candidate === target ||
+        similarity(candidate, target) >= this.artistSimilarityThreshold
+    )
+  }
+}
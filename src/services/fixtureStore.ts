@@ -0,0 +1,69 @@
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { FixtureChannel, FixtureMode, RecordedCall } from "../types"
+import { NotConfiguredError, UnrecordedCallError } from "../errors"
+
+const FIXTURE_FILE_VERSION = 1
+
+// Enregistre les paires requête -> réponse sur disque et les rejoue hors ligne
+export class FixtureStore {
+  private entries = new Map<string, RecordedCall>()
+
+  constructor(
+    private path: string,
+    readonly mode: FixtureMode
+  ) {
+    if (existsSync(path)) {
+      const file = JSON.parse(readFileSync(path, "utf8"))
+      ;(file.entries as RecordedCall[]).forEach((entry) =>
+        this.entries.set(this.key(entry.channel, entry.request), entry)
+      )
+    } else if (mode === "replay") {
+      throw new NotConfiguredError(`Fixture file not found: ${path}`)
+    }
+  }
+
+  // Espaces normalisés, clés triées, valeurs undefined ignorées
+  static normalize(value: unknown): unknown {
+    if (typeof value === "string") {
+      return value.replace(/\s+/g, " ").trim()
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => FixtureStore.normalize(item))
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.keys(value)
+        .sort()
+        .reduce((obj: Record<string, unknown>, key) => {
+          const item = (value as Record<string, unknown>)[key]
+          if (item !== undefined) obj[key] = FixtureStore.normalize(item)
+          return obj
+        }, {})
+    }
+    return value
+  }
+
+  private key(channel: FixtureChannel, request: unknown): string {
+    return `${channel}:${JSON.stringify(FixtureStore.normalize(request))}`
+  }
+
+  replay(channel: FixtureChannel, request: unknown): RecordedCall {
+    const entry = this.entries.get(this.key(channel, request))
+    if (!entry) {
+      throw new UnrecordedCallError(channel, FixtureStore.normalize(request))
+    }
+    return entry
+  }
+
+  record(call: RecordedCall): void {
+    const entry = { ...call, request: FixtureStore.normalize(call.request) }
+    this.entries.set(this.key(call.channel, call.request), entry)
+    writeFileSync(
+      this.path,
+      JSON.stringify(
+        { version: FIXTURE_FILE_VERSION, entries: [...this.entries.values()] },
+        null,
+        2
+      )
+    )
+  }
+}
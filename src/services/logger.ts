@@ -1,9 +1,12 @@
 import winston from "winston"
 import { Format } from "logform"
-import { LoggerConfig, LogLevel } from "../types"
+import { Logger, LoggerConfig, LogLevel } from "../types"
+import { Tracer } from "./tracing"
+import { Redactor } from "./redaction"
 
 export class LoggerService {
-  private logger: winston.Logger
+  private logger: Logger
+  private redactor: Redactor
 
   private static convertLogLevel(level: LogLevel): string {
     const levels = {
@@ -16,15 +19,31 @@ export class LoggerService {
     return levels[level] || "info"
   }
 
-  constructor(config: LoggerConfig) {
+  // Avec un tracer, chaque ligne porte le requestId et le span de l'appel en cours, et
+  // les messages d'erreur des spans sont masqués avec les mêmes règles que les logs.
+  // Avec un logger externe, les messages (masqués) lui sont transmis tels quels
+  // et config.level, filename et consoleOutput sont ignorés.
+  constructor(
+    config: LoggerConfig,
+    private tracer?: Tracer,
+    external?: Logger
+  ) {
+    this.redactor = new Redactor(config.redaction)
+    this.logger = external || this.createWinstonLogger(config)
+    tracer?.setRedaction((text) => this.redactor.redactText(text))
+  }
+
+  private createWinstonLogger(config: LoggerConfig): winston.Logger {
     const formats = this.createFormats()
     const transports = this.createTransports(config, formats)
 
-    this.logger = winston.createLogger({
+    return winston.createLogger({
       level: LoggerService.convertLogLevel(config.level),
       levels: winston.config.npm.levels,
       format: formats.combined,
       transports,
+      // Sans transport, winston signale chaque écriture sur la console
+      silent: transports.length === 0,
       exitOnError: false,
     })
   }
@@ -101,34 +120,53 @@ export class LoggerService {
     return transports
   }
 
+  private withTrace(meta?: object): object | undefined {
+    const trace = this.tracer?.current()
+    return trace ? { ...meta, ...trace } : meta
+  }
+
+  // Toutes les écritures passent par ici : aucun transport ne reçoit de données non masquées
+  private write(level: LogLevel, message: string, meta?: object): void {
+    const text = this.redactor.redactText(message)
+    const redacted = this.redactor.redact(meta)
+    if (level === LogLevel.HTTP) {
+      // http est optionnel pour un logger externe
+      if (this.logger.http) this.logger.http(text, redacted)
+      else this.logger.debug(text, redacted)
+      return
+    }
+    this.logger[level](text, redacted)
+  }
+
   debug(message: string, meta?: object): void {
-    this.logger.debug(message, meta)
+    this.write(LogLevel.DEBUG, message, this.withTrace(meta))
   }
 
   info(message: string, meta?: object): void {
-    this.logger.info(message, meta)
+    this.write(LogLevel.INFO, message, this.withTrace(meta))
   }
 
   warn(message: string, meta?: object): void {
-    this.logger.warn(message, meta)
+    this.write(LogLevel.WARN, message, this.withTrace(meta))
   }
 
   error(message: string, error?: Error | unknown, meta?: object): void {
     if (error instanceof Error) {
-      this.logger.error(message, {
+      this.write(LogLevel.ERROR, message, {
         error: {
           message: error.message,
           stack: error.stack,
           ...meta,
         },
+        ...this.tracer?.current(),
       })
     } else {
-      this.logger.error(message, { error, ...meta })
+      this.write(LogLevel.ERROR, message, this.withTrace({ error, ...meta }))
     }
   }
 
   http(message: string, meta?: object): void {
-    this.logger.http(message, meta)
+    this.write(LogLevel.HTTP, message, this.withTrace(meta))
   }
 
   // Méthode utilitaire pour créer un logger contextualisé
@@ -1,68 +1,112 @@
-import { OpenAI } from "openai"
-import { SongAnalysis, Artist, MusicTrend } from "../types"
+import { SongAnalysis, Artist, MusicTrend, AIServiceOptions, LLMProvider } from "../types"
+import { Schema, songAnalysisSchema, artistSchema, musicTrendSchema } from "../schemas"
+import {
+  ARTIST_FORMAT,
+  MUSIC_TREND_FORMAT,
+  SONG_ANALYSIS_FORMAT,
+} from "../schemas/formats"
+import { DEFAULT_MAX_VALIDATION_ATTEMPTS, requestStructured } from "./structuredOutput"
+import { DEFAULT_MODELS } from "../providers"
+import { fingerprint } from "../utils/fingerprint"
+
+const ANALYSIS_SYSTEM_PROMPT =
+  "You are a music expert with deep knowledge of music theory, history, and cultural impact. Provide detailed analysis based on the given prompt."
 
 export class MusicAnalysisService {
-  private openai: OpenAI
+  private model: string
+  private maxValidationAttempts: number
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey })
+  constructor(
+    private provider: LLMProvider,
+    options: AIServiceOptions = {}
+  ) {
+    this.model = options.models?.analysis || DEFAULT_MODELS.analysis
+    this.maxValidationAttempts =
+      options.maxValidationAttempts ?? DEFAULT_MAX_VALIDATION_ATTEMPTS
   }
 
-  private async analyzeWithAI(prompt: string): Promise<any> {
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
+  private async analyzeWithAI<T>(
+    prompt: string,
+    schema: Schema<T>,
+    operation: string
+  ): Promise<T> {
+    return requestStructured(
+      async (messages) => {
+        const completion = await this.provider.complete({
+          model: this.model,
+          messages,
+          json: true,
+        })
+        return completion.content
+      },
+      [
         {
           role: "system",
-          content:
-            "You are a music expert with deep knowledge of music theory, history, and cultural impact. Provide detailed analysis based on the given prompt.",
+          content: ANALYSIS_SYSTEM_PROMPT,
         },
         {
           role: "user",
           content: prompt,
         },
       ],
-      response_format: { type: "json_object" },
-    })
-
-    return JSON.parse(completion.choices[0].message.content || "{}")
+      schema,
+      { operation, maxAttempts: this.maxValidationAttempts }
+    )
   }
 
   async analyzeSong(title: string, artist: string): Promise<SongAnalysis> {
-    const prompt = `Analyze the song "${title}" by ${artist} and provide:
+    return this.analyzeWithAI(
+      this.songPrompt(title, artist),
+      songAnalysisSchema,
+      "analyzeSong"
+    )
+  }
+
+  async analyzeArtist(name: string): Promise<Artist> {
+    return this.analyzeWithAI(this.artistPrompt(name), artistSchema, "analyzeArtist")
+  }
+
+  async analyzeTrend(genre: string): Promise<MusicTrend> {
+    return this.analyzeWithAI(this.trendPrompt(genre), musicTrendSchema, "analyzeTrend")
+  }
+
+  // Versions des clés de cache : changent dès que le modèle ou un prompt change
+  cacheVersions(): Record<string, string> {
+    const version = (prompt: string) =>
+      fingerprint(this.model, ANALYSIS_SYSTEM_PROMPT, prompt)
+    return {
+      song_analysis: version(this.songPrompt("{title}", "{artist}")),
+      similar_artists: version(this.artistPrompt("{name}")),
+      trend: version(this.trendPrompt("{genre}")),
+    }
+  }
+
+  private songPrompt(title: string, artist: string): string {
+    return `Analyze the song "${title}" by ${artist} and provide:
     - Musical features (genre, mood, tempo, energy, etc.)
     - Thematic elements
     - Cultural impact
     - Similar songs
-    Return as JSON with these categories.`
-
-    const analysis = await this.analyzeWithAI(prompt)
-    return analysis as SongAnalysis
+    ${SONG_ANALYSIS_FORMAT}`
   }
 
-  async analyzeArtist(name: string): Promise<Artist> {
-    const prompt = `Analyze the artist "${name}" and provide:
+  private artistPrompt(name: string): string {
+    return `Analyze the artist "${name}" and provide:
     - Main genres
     - Popularity metrics
     - Top tracks
     - Similar artists
     - Era and cultural context
     - Brief description
-    Return as JSON with these categories.`
-
-    const analysis = await this.analyzeWithAI(prompt)
-    return analysis as Artist
+    ${ARTIST_FORMAT}`
   }
 
-  async analyzeTrend(genre: string): Promise<MusicTrend> {
-    const prompt = `Analyze the current trend for "${genre}" music and provide:
+  private trendPrompt(genre: string): string {
+    return `Analyze the current trend for "${genre}" music and provide:
     - Current popularity
     - Recent notable artists and songs
     - Growth rate estimation
     - Future prediction
-    Return as JSON with these categories.`
-
-    const analysis = await this.analyzeWithAI(prompt)
-    return analysis as MusicTrend
+    ${MUSIC_TREND_FORMAT}`
   }
 }
@@ -1,17 +1,72 @@
-import OpenAI from "openai"
 import {
+  ChatMessage,
   PlaylistCriteria,
   GenerationResult,
   SongAnalysis,
   CustomPromptOptions,
+  AIServiceOptions,
+  LLMProvider,
+  PlaylistSuggestionOptions,
+  RefinementRequest,
+  RejectedSong,
+  Song,
+  SuggestionStreamEvent,
 } from "../types"
+import { CriteriaValidator, POPULARITY_BUCKETS } from "./criteriaValidator"
+import {
+  CompletionFn,
+  DEFAULT_MAX_VALIDATION_ATTEMPTS,
+  requestStructured,
+} from "./structuredOutput"
+import {
+  PlaylistSummary,
+  generationResultSchema,
+  parseWithSchema,
+  playlistRefinementSchema,
+  playlistSummarySchema,
+  songAnalysisSchema,
+  songSchema,
+} from "../schemas"
+import { SONG_ANALYSIS_FORMAT } from "../schemas/formats"
+import { PlaylistGeniusError } from "../errors"
+import { DEFAULT_MODELS, streamCompletion } from "../providers"
+import {
+  AVERAGE_SONG_DURATION,
+  PlaylistLengthTarget,
+  dedupeSongs,
+  fitToDuration,
+  resolveLengthTarget,
+  songKey,
+  totalDuration,
+} from "../utils/playlist"
+import { fingerprint } from "../utils/fingerprint"
+import { JsonArrayItemParser } from "../utils/jsonStream"
+import { ContextLogger } from "./logger"
+
+const MAX_GENERATION_ROUNDS = 4
+
+const PLAYLIST_SYSTEM_PROMPT =
+  "You are a music expert with deep knowledge of various genres, artists, and music history. Generate personalized playlist suggestions based on user criteria."
+
+const REFINEMENT_SYSTEM_PROMPT =
+  "You are a music expert editing an existing playlist. Apply each requested change with as few edits as possible and keep every other song in place."
 
 export class OpenAIService {
-  private openai: OpenAI
-  private model: string = "gpt-3.5-turbo"
+  private model: string
+  private analysisModel: string
+  private validator: CriteriaValidator
+  private maxValidationAttempts: number
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey })
+  constructor(
+    private provider: LLMProvider,
+    options: AIServiceOptions = {},
+    private logger?: ContextLogger
+  ) {
+    this.model = options.models?.playlist || DEFAULT_MODELS.playlist
+    this.analysisModel = options.models?.analysis || DEFAULT_MODELS.analysis
+    this.validator = new CriteriaValidator()
+    this.maxValidationAttempts =
+      options.maxValidationAttempts ?? DEFAULT_MAX_VALIDATION_ATTEMPTS
   }
 
   async generatePlaylistPrompt(criteria: PlaylistCriteria): Promise<string> {
@@ -48,14 +103,224 @@ export class OpenAIService {
       Format the response as a JSON array.`
   }
 
-  async getPlaylistSuggestions(criteria: PlaylistCriteria): Promise<GenerationResult> {
+  async getPlaylistSuggestions(
+    criteria: PlaylistCriteria,
+    options: PlaylistSuggestionOptions = {}
+  ): Promise<GenerationResult> {
     try {
-      const prompt = `Generate a playlist with 5 songs matching these criteria:
-      ${this.formatCriteria(criteria)}
-      
-      Return a JSON object with this exact structure:
+      const target = resolveLengthTarget(criteria)
+      const seen = new Set((options.exclude || []).map(songKey))
+      const collected: Song[] = []
+      const rejected: RejectedSong[] = []
+      let explanation = ""
+      const tags = new Set<string>()
+
+      for (let round = 0; round < MAX_GENERATION_ROUNDS; round++) {
+        const requested = this.remainingSongCount(target, collected)
+        if (requested <= 0) break
+
+        const response = await this.requestSongs(criteria, requested, [
+          ...(options.exclude || []),
+          ...collected,
+          ...rejected.map((r) => r.song),
+        ])
+
+        const validation = this.validator.validate(
+          dedupeSongs(response.songs, seen),
+          criteria
+        )
+        collected.push(...validation.accepted)
+        rejected.push(...validation.rejected)
+        explanation = explanation || response.explanation
+        response.tags.forEach((tag) => tags.add(tag))
+
+        if (!response.songs.length) break
+      }
+
+      const songs = target.durationSeconds
+        ? fitToDuration(collected, target.durationSeconds, target.toleranceSeconds).songs
+        : collected.slice(0, target.songCount)
+
+      return {
+        songs,
+        explanation: explanation || "Playlist generated based on given criteria",
+        tags: [...tags],
+        totalDuration: totalDuration(songs),
+        rejected,
+      }
+    } catch (error) {
+      this.logger?.error("Error generating playlist suggestions", error)
+      if (error instanceof PlaylistGeniusError) throw error
+      throw new PlaylistGeniusError("Failed to generate playlist suggestions", {
+        operation: "generatePlaylistSuggestions",
+        cause: error,
+      })
+    }
+  }
+
+  // Une seule requête en streaming : chaque chanson est validée et émise dès que son
+  // objet JSON est complet, sans les tours de complément ni la réparation du JSON
+  async *streamPlaylistSuggestions(
+    criteria: PlaylistCriteria,
+    options: PlaylistSuggestionOptions = {}
+  ): AsyncGenerator<SuggestionStreamEvent> {
+    try {
+      const target = resolveLengthTarget(criteria)
+      const seen = new Set((options.exclude || []).map(songKey))
+      const parser = new JsonArrayItemParser("songs")
+      const collected: Song[] = []
+      const rejected: RejectedSong[] = []
+      let selected: Song[] = []
+
+      const chunks = streamCompletion(this.provider, {
+        model: this.model,
+        messages: this.songsMessages(
+          criteria,
+          this.remainingSongCount(target, []),
+          options.exclude || []
+        ),
+        json: true,
+      })
+
+      for await (const chunk of chunks) {
+        for (const item of parser.push(chunk.content)) {
+          const { value: song, issues } = parseWithSchema(songSchema, item)
+          if (!song) {
+            this.logger?.warn("Skipping malformed streamed song", { issues })
+            continue
+          }
+          if (!dedupeSongs([song], seen).length) continue
+
+          const validation = this.validator.validate([song], criteria)
+          for (const rejection of validation.rejected) {
+            rejected.push(rejection)
+            yield { type: "rejected", rejection }
+          }
+          if (!validation.accepted.length) continue
+
+          // La sélection se fait dans l'ordre : une chanson retenue le reste
+          collected.push(song)
+          selected = target.durationSeconds
+            ? fitToDuration(collected, target.durationSeconds, target.toleranceSeconds)
+                .songs
+            : collected.slice(0, target.songCount)
+          if (selected[selected.length - 1] === song) {
+            yield { type: "song", index: selected.length - 1, song }
+          }
+        }
+      }
+
+      const summary = this.parseSummary(parser.content)
+      yield {
+        type: "done",
+        result: {
+          songs: selected,
+          explanation:
+            summary.explanation || "Playlist generated based on given criteria",
+          tags: summary.tags,
+          totalDuration: totalDuration(selected),
+          rejected,
+        },
+      }
+    } catch (error) {
+      this.logger?.error("Error streaming playlist suggestions", error)
+      if (error instanceof PlaylistGeniusError) throw error
+      throw new PlaylistGeniusError("Failed to generate playlist suggestions", {
+        operation: "streamPlaylistSuggestions",
+        cause: error,
+      })
+    }
+  }
+
+  // Explication et tags de la réponse complète ; un JSON invalide ne coûte que ceux-ci
+  private parseSummary(content: string): PlaylistSummary {
+    try {
+      const { value } = parseWithSchema(playlistSummarySchema, JSON.parse(content))
+      if (value) return value
+    } catch {
+      // réponse tronquée ou hors format
+    }
+    return { explanation: "", tags: [] }
+  }
+
+  // Applique une demande en langage naturel à une version de playlist ; les chansons
+  // conservées sont reprises telles quelles (même objet, vérification comprise)
+  async refinePlaylist(request: RefinementRequest): Promise<GenerationResult> {
+    try {
+      const current = request.playlist.songs
+      const refinement = await requestStructured(
+        this.complete(this.model),
+        [
+          { role: "system", content: REFINEMENT_SYSTEM_PROMPT },
+          ...request.history,
+          { role: "user", content: this.refinementPrompt(request) },
+        ],
+        playlistRefinementSchema,
+        { operation: "refinePlaylist", maxAttempts: this.maxValidationAttempts }
+      )
+
+      const kept = new Set<number>()
+      const added: Song[] = []
+      const songs = refinement.songs.flatMap((item): Song[] => {
+        if (!("keep" in item)) {
+          added.push(item)
+          return [item]
+        }
+        const index = item.keep - 1
+        if (!current[index] || kept.has(index)) {
+          this.logger?.warn("Ignoring invalid kept song reference", { keep: item.keep })
+          return []
+        }
+        kept.add(index)
+        return [current[index]]
+      })
+
+      // Seules les nouvelles chansons sont revalidées (doublons compris)
+      const seen = new Set([...kept].map((index) => songKey(current[index])))
+      const validation = this.validator.validate(
+        dedupeSongs(added, seen),
+        request.criteria
+      )
+      const accepted = new Set(validation.accepted)
+      const refined = songs.filter((song) => !added.includes(song) || accepted.has(song))
+
+      return {
+        songs: refined,
+        explanation: refinement.explanation || `Playlist updated: ${request.instruction}`,
+        tags: refinement.tags.length ? refinement.tags : request.playlist.tags,
+        totalDuration: totalDuration(refined),
+        rejected: validation.rejected,
+      }
+    } catch (error) {
+      this.logger?.error("Error refining playlist", error)
+      if (error instanceof PlaylistGeniusError) throw error
+      throw new PlaylistGeniusError("Failed to refine playlist", {
+        operation: "refinePlaylist",
+        cause: error,
+      })
+    }
+  }
+
+  private refinementPrompt(request: RefinementRequest): string {
+    const songs = request.playlist.songs
+      .map(
+        (song, index) =>
+          `${index + 1}. "${song.title}" by ${song.artist} (${song.genre.join(", ")}, ${song.year}, ${song.tempo} BPM, popularity ${song.popularity})`
+      )
+      .join("\n")
+
+    return `Current playlist:
+      ${songs || "(empty)"}
+
+      Criteria that must still hold:
+      ${this.formatCriteria(request.criteria) || "(none)"}
+
+      Requested change: ${request.instruction}
+
+      Return a JSON object with this exact structure, listing the songs in their new order:
       {
         "songs": [
+          { "keep": 1 },
           {
             "title": "Song Name",
             "artist": "Artist Name",
@@ -66,37 +331,109 @@ export class OpenAIService {
             "duration": 180
           }
         ],
-        "explanation": "Brief explanation of the selection",
+        "explanation": "What changed and why",
         "tags": ["relevant", "tags"]
-      }`
+      }
+      Use { "keep": n } for each song of the current playlist that stays, n being its number above.`
+  }
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a music expert with deep knowledge of various genres, artists, and music history. Generate personalized playlist suggestions based on user criteria.",
-          },
+  private remainingSongCount(target: PlaylistLengthTarget, collected: Song[]): number {
+    if (!target.durationSeconds) {
+      return target.songCount - collected.length
+    }
+
+    const fit = fitToDuration(collected, target.durationSeconds, target.toleranceSeconds)
+    if (fit.withinTolerance) return 0
+
+    const missingSeconds = target.durationSeconds - fit.totalDuration
+    return Math.max(1, Math.ceil(missingSeconds / AVERAGE_SONG_DURATION) + 1)
+  }
+
+  private async requestSongs(
+    criteria: PlaylistCriteria,
+    count: number,
+    exclude: Song[]
+  ): Promise<GenerationResult> {
+    const response = await requestStructured(
+      this.complete(this.model),
+      this.songsMessages(criteria, count, exclude),
+      generationResultSchema,
+      { operation: "getPlaylistSuggestions", maxAttempts: this.maxValidationAttempts }
+    )
+
+    return {
+      songs: response.songs,
+      explanation: response.explanation,
+      tags: response.tags,
+    }
+  }
+
+  private songsMessages(
+    criteria: PlaylistCriteria,
+    count: number,
+    exclude: Song[]
+  ): ChatMessage[] {
+    const exclusions = exclude.length
+      ? `Do not include any of these songs:\n${exclude
+          .map((song) => `- "${song.title}" by ${song.artist}`)
+          .join("\n")}`
+      : ""
+
+    return [
+      {
+        role: "system",
+        content: PLAYLIST_SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: this.songsPrompt(count, this.formatCriteria(criteria), exclusions),
+      },
+    ]
+  }
+
+  private songsPrompt(
+    count: number | string,
+    criteria: string,
+    exclusions: string
+  ): string {
+    return `Generate a playlist with ${count} songs matching these criteria:
+      ${criteria}
+      ${exclusions}
+
+      Return a JSON object with this exact structure:
+      {
+        "songs": [
           {
-            role: "user",
-            content: prompt,
-          },
+            "title": "Song Name",
+            "artist": "Artist Name",
+            "genre": ["main genre", "sub genre"],
+            "tempo": 120,
+            "popularity": 85,
+            "year": 2020,
+            "duration": 180
+          }
         ],
-        response_format: { type: "json_object" },
-      })
+        "explanation": "Brief explanation of the selection",
+        "tags": ["relevant", "tags"]
+      }`
+  }
 
-      const response = JSON.parse(completion.choices[0].message.content || "{}")
+  // Versions des clés de cache : changent dès que le modèle ou un prompt change
+  cacheVersions(): Record<string, string> {
+    return {
+      playlist: fingerprint(
+        this.model,
+        PLAYLIST_SYSTEM_PROMPT,
+        this.songsPrompt("{count}", "{criteria}", "{exclusions}")
+      ),
+    }
+  }
 
-      // Assurer une structure de retour valide même en cas d'erreur
-      return {
-        songs: response.songs || [],
-        explanation: response.explanation || "Playlist generated based on given criteria",
-        tags: response.tags || [],
-      }
-    } catch (error) {
-      console.error("Error generating playlist suggestions:", error)
-      throw new Error("Failed to generate playlist suggestions")
+  // Fonction de complétion JSON utilisée par requestStructured
+  private complete(model: string): CompletionFn {
+    return async (messages) => {
+      const completion = await this.provider.complete({ model, messages, json: true })
+      return completion.content
     }
   }
 
@@ -113,7 +450,13 @@ export class OpenAIService {
       parts.push(`Tempo: ${criteria.tempo}`)
     }
     if (criteria.popularity) {
-      parts.push(`Popularity: ${criteria.popularity}`)
+      const bucket = POPULARITY_BUCKETS[criteria.popularity]
+      parts.push(
+        `Popularity: ${criteria.popularity} (between ${bucket.min} and ${bucket.max} on a 1-100 scale)`
+      )
+    }
+    if (criteria.excludedArtists?.length) {
+      parts.push(`Exclude these artists: ${criteria.excludedArtists.join(", ")}`)
     }
     if (criteria.yearRange) {
       if (criteria.yearRange.start && criteria.yearRange.end) {
@@ -138,11 +481,11 @@ export class OpenAIService {
     - Similar songs
     - Cultural impact
 
-    Format the response as a structured JSON matching the SongAnalysis interface.`
+    ${SONG_ANALYSIS_FORMAT}`
 
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
+    return requestStructured(
+      this.complete(this.analysisModel),
+      [
         {
           role: "system",
           content: "You are a music expert providing detailed song analysis.",
@@ -152,14 +495,13 @@ export class OpenAIService {
           content: prompt,
         },
       ],
-      response_format: { type: "json_object" },
-    })
-
-    return JSON.parse(completion.choices[0].message.content || "{}") as SongAnalysis
+      songAnalysisSchema,
+      { operation: "analyzeSongDetailed", maxAttempts: this.maxValidationAttempts }
+    )
   }
 
   async executeCustomPrompt(prompt: string, options: CustomPromptOptions = {}) {
-    const completion = await this.openai.chat.completions.create({
+    const completion = await this.provider.complete({
       model: this.model,
       messages: [
         {
@@ -172,12 +514,12 @@ export class OpenAIService {
         },
       ],
       temperature: options.temperature || 0.7,
-      max_tokens: options.maxTokens,
-      response_format: options.format === "json" ? { type: "json_object" } : undefined,
+      maxTokens: options.maxTokens,
+      json: options.format === "json",
     })
 
     return options.format === "json"
-      ? JSON.parse(completion.choices[0].message.content || "{}")
-      : completion.choices[0].message.content
+      ? JSON.parse(completion.content || "{}")
+      : completion.content
   }
 }
@@ -0,0 +1,105 @@
+import { RedactionOptions, RedactionRule } from "../types"
+import { fingerprint } from "../utils/fingerprint"
+
+const REDACTED = "[REDACTED]"
+const MAX_DEPTH = 10
+
+// key : nom de champ ; pattern : portion de texte à masquer dans n'importe quelle chaîne
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { key: /^(authorization|proxy-authorization|cookie|set-cookie)$/i },
+  { key: /^((access|refresh|id)_?)?token$/i },
+  { key: /secret|password|api_?key/i },
+  // Un champ "code" seul désigne souvent un code d'erreur (ECONNRESET, invalid_grant) :
+  // le code d'autorisation OAuth n'est masqué que sous un nom explicite ou en paramètre
+  { key: /^(client_?id|auth(orization)?_?code|code_?verifier)$/i },
+  { key: /^e?mail$/i },
+  // Pseudonymisés plutôt que masqués pour pouvoir suivre un utilisateur dans les logs
+  { key: /^(user|session)_?id$/i, strategy: "hash" },
+  { pattern: /(?<=\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi },
+  {
+    pattern:
+      /(?<=\b(access_token|refresh_token|client_secret|code|code_verifier)=)[^&\s"']+/gi,
+  },
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+]
+
+// Masque secrets et données personnelles dans les métadonnées de log, erreurs comprises
+export class Redactor {
+  private keyRules: RedactionRule[]
+  private patternRules: RedactionRule[]
+
+  constructor(options: RedactionOptions = {}) {
+    const rules = [
+      ...(options.useDefaults === false ? [] : DEFAULT_REDACTION_RULES),
+      ...(options.rules || []),
+    ]
+    this.keyRules = rules.filter((rule) => rule.key !== undefined)
+    this.patternRules = rules.filter((rule) => rule.pattern !== undefined)
+  }
+
+  redact<T>(value: T): T {
+    return this.walk(value, 0, new WeakSet()) as T
+  }
+
+  redactText(text: string): string {
+    return this.patternRules.reduce(
+      (result, rule) => result.replace(rule.pattern!, rule.replacement ?? REDACTED),
+      text
+    )
+  }
+
+  private walk(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === "string") return this.redactText(value)
+    if (value === null || typeof value !== "object") return value
+    if (value instanceof Date) return value.toISOString()
+    if (seen.has(value)) return "[Circular]"
+    if (depth >= MAX_DEPTH) return "[Truncated]"
+    seen.add(value)
+
+    const result = Array.isArray(value)
+      ? value.map((item) => this.walk(item, depth + 1, seen))
+      : this.walkObject(value, depth, seen)
+    // Un même objet peut apparaître plusieurs fois sans former de cycle
+    seen.delete(value)
+    return result
+  }
+
+  private walkObject(value: object, depth: number, seen: WeakSet<object>): object {
+    // Les propriétés d'une erreur (message, stack) ne sont pas énumérables
+    const entries =
+      value instanceof Error
+        ? Object.entries({
+            ...value,
+            name: value.name,
+            message: value.message,
+            stack: value.stack,
+          })
+        : Object.entries(value)
+
+    return Object.fromEntries(
+      entries.map(([key, item]) => {
+        const rule = this.keyRules.find((candidate) => this.matchesKey(candidate, key))
+        if (!rule || item === undefined || item === null) {
+          return [key, this.walk(item, depth + 1, seen)]
+        }
+        return [key, this.mask(rule, item)]
+      })
+    )
+  }
+
+  private matchesKey(rule: RedactionRule, key: string): boolean {
+    return typeof rule.key === "string"
+      ? rule.key.toLowerCase() === key.toLowerCase()
+      : rule.key!.test(key)
+  }
+
+  private mask(rule: RedactionRule, value: unknown): string {
+    if (
+      rule.strategy === "hash" &&
+      (typeof value === "string" || typeof value === "number")
+    ) {
+      return `hash:${fingerprint(String(value))}`
+    }
+    return rule.replacement ?? REDACTED
+  }
+}
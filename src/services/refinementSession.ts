@@ -0,0 +1,103 @@
+import {
+  CallOptions,
+  ChatMessage,
+  GenerationResult,
+  PlaylistCriteria,
+  PlaylistVersion,
+  RefinementRequest,
+} from "../types"
+
+export type PlaylistRefiner = (
+  request: RefinementRequest,
+  options?: CallOptions
+) => Promise<GenerationResult>
+
+// Playlist affinée par demandes successives ("moins mainstream", "plus de 90s"...).
+// Chaque demande crée une version ; undo/redo se déplacent entre les versions et une
+// nouvelle demande après undo remplace les versions annulées
+export class RefinementSession {
+  private history: PlaylistVersion[]
+  private position = 0
+  private pending: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    readonly criteria: PlaylistCriteria,
+    initial: GenerationResult,
+    private refiner: PlaylistRefiner
+  ) {
+    this.history = [{ result: initial }]
+  }
+
+  get current(): GenerationResult {
+    return this.history[this.position].result
+  }
+
+  // Toutes les versions, y compris celles annulées qu'un redo peut rétablir
+  get versions(): PlaylistVersion[] {
+    return [...this.history]
+  }
+
+  get currentVersion(): number {
+    return this.position
+  }
+
+  get canUndo(): boolean {
+    return this.position > 0
+  }
+
+  get canRedo(): boolean {
+    return this.position < this.history.length - 1
+  }
+
+  // Échanges ayant mené à la version courante, renvoyés au modèle à chaque demande
+  get messages(): ChatMessage[] {
+    return this.history
+      .slice(1, this.position + 1)
+      .flatMap(({ instruction, result }): ChatMessage[] => [
+        { role: "user", content: instruction || "" },
+        { role: "assistant", content: result.explanation },
+      ])
+  }
+
+  // Les demandes sont traitées l'une après l'autre ; en cas d'échec, la session
+  // reste sur la version courante
+  refine(instruction: string, options?: CallOptions): Promise<GenerationResult> {
+    const next = this.pending.then(() => this.applyRefinement(instruction, options))
+    this.pending = next.catch(() => undefined)
+    return next
+  }
+
+  undo(): GenerationResult | undefined {
+    if (!this.canUndo) return undefined
+    this.position--
+    return this.current
+  }
+
+  redo(): GenerationResult | undefined {
+    if (!this.canRedo) return undefined
+    this.position++
+    return this.current
+  }
+
+  private async applyRefinement(
+    instruction: string,
+    options?: CallOptions
+  ): Promise<GenerationResult> {
+    // undo/redo restent possibles pendant l'appel : la nouvelle version dérive de la
+    // version courante au moment de la demande, pas de celle affichée à la réponse
+    const base = this.position
+    const result = await this.refiner(
+      {
+        criteria: this.criteria,
+        playlist: this.current,
+        history: this.messages,
+        instruction,
+      },
+      options
+    )
+
+    this.history = [...this.history.slice(0, base + 1), { result, instruction }]
+    this.position = this.history.length - 1
+    return result
+  }
+}
@@ -0,0 +1,53 @@
+import { CatalogSource, Song } from "../types"
+import { scoreTrackMatch } from "./trackMatcher"
+
+export interface SongVerifierOptions {
+  minConfidence?: number
+}
+
+export interface VerificationOutcome {
+  verified: Song[]
+  unresolved: Song[]
+}
+
+export class SongVerifier {
+  private minConfidence: number
+
+  constructor(
+    private source: CatalogSource,
+    options: SongVerifierOptions = {}
+  ) {
+    this.minConfidence = options.minConfidence ?? 0.75
+  }
+
+  async verify(songs: Song[]): Promise<VerificationOutcome> {
+    const resolved = await Promise.all(songs.map((song) => this.resolve(song)))
+
+    return {
+      verified: resolved.filter((song) => this.isVerified(song)),
+      unresolved: resolved.filter((song) => !this.isVerified(song)),
+    }
+  }
+
+  async resolve(song: Song): Promise<Song> {
+    const candidates = await this.source.search(song)
+
+    const best = candidates
+      .map((track) => ({ track, confidence: scoreTrackMatch(song, track).score }))
+      .sort((a, b) => b.confidence - a.confidence)[0]
+
+    return {
+      ...song,
+      verification: {
+        source: this.source.name,
+        confidence: best?.confidence ?? 0,
+        trackId:
+          best && best.confidence >= this.minConfidence ? best.track.id : undefined,
+      },
+    }
+  }
+
+  private isVerified(song: Song): boolean {
+    return !!song.verification?.trackId
+  }
+}
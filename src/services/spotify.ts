@@ -3,28 +3,92 @@ import {
   PlaylistCriteria,
   SpotifyCredentials,
   SpotifyAuthTokens,
+  SpotifyAuthOptions,
+  StoredSpotifyTokens,
+  TokenStore,
   LogLevel,
+  CatalogTrack,
+  TrackMatch,
+  TrackMatchOptions,
 } from "../types"
 import { CacheService } from "./cache"
 import { LoggerService, ContextLogger } from "./logger"
+import { MatchTarget, scoreTrackMatch } from "./trackMatcher"
+import { splitArtists } from "../utils/text"
+import { chunk, mapWithConcurrency } from "../utils/concurrency"
+import { ScheduleOptions, SpotifyRequestScheduler } from "./spotifyScheduler"
+import {
+  AuthAttemptRegistry,
+  DEFAULT_SPOTIFY_SCOPES,
+  codeChallengeFor,
+} from "./spotifyAuth"
+import {
+  AuthRequiredError,
+  PlaylistGeniusError,
+  ValidationError,
+  isUnrecoverableError,
+  statusCodeOf,
+  toPlaylistGeniusError,
+} from "../errors"
+
+export function toCatalogTrack(track: SpotifyApi.TrackObjectFull): CatalogTrack {
+  return {
+    id: track.id,
+    title: track.name,
+    artist: track.artists.map((artist) => artist.name).join(", "),
+    album: track.album?.name,
+    year: parseInt(track.album?.release_date, 10) || undefined,
+    duration: track.duration_ms ? Math.round(track.duration_ms / 1000) : undefined,
+  }
+}
+
+export interface SpotifyServiceOptions {
+  client?: SpotifyWebApi // client préconfiguré (fixtures, tests)
+  batchConcurrency?: number // lots envoyés simultanément
+  scheduler?: SpotifyRequestScheduler // partagé entre services d'une même application
+  auth?: SpotifyAuthOptions
+  sessionId?: string // clé des tokens dans le TokenStore
+}
+
+const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com"
+
+interface SpotifyTokenResponse {
+  access_token: string
+  refresh_token?: string
+  expires_in: number
+}
+
+// Limites des endpoints par lots de l'API Spotify
+const AUDIO_FEATURES_BATCH_SIZE = 100
+const ARTISTS_BATCH_SIZE = 50
+const PLAYLIST_TRACKS_BATCH_SIZE = 100
 
 export class SpotifyService {
   private spotify: SpotifyWebApi
   private tokenExpirationTime: number = 0
-  private retryCount: number = 0
-  private readonly MAX_RETRIES: number = 3
+  private pendingRefresh?: Promise<SpotifyAuthTokens>
+  private restored?: Promise<boolean>
+  private scheduler: SpotifyRequestScheduler
+  private batchConcurrency: number
   private logger: ContextLogger
+  private authAttempts: AuthAttemptRegistry
+  private scopes: string[]
+  private usePkce: boolean
+  private sessionId: string
+  private tokenStore?: TokenStore
+  private onTokensRefreshed?: SpotifyAuthOptions["onTokensRefreshed"]
 
   constructor(
-    credentials: SpotifyCredentials,
+    private credentials: SpotifyCredentials,
     private cacheService: CacheService,
-    loggerService?: LoggerService
+    loggerService?: LoggerService,
+    options: SpotifyServiceOptions = {}
   ) {
     const logger =
       loggerService ||
       new LoggerService({
         level: LogLevel.INFO,
-        consoleOutput: true,
+        consoleOutput: false,
       })
 
     this.logger = logger.createContextLogger("SpotifyService")
@@ -32,147 +96,263 @@ export class SpotifyService {
       clientId: credentials.clientId,
       redirectUri: credentials.redirectUri,
     })
-    this.spotify = new SpotifyWebApi({
-      clientId: credentials.clientId,
-      clientSecret: credentials.clientSecret,
-      redirectUri: credentials.redirectUri,
-    })
+    this.batchConcurrency = options.batchConcurrency ?? 3
+    this.scheduler = options.scheduler || new SpotifyRequestScheduler({}, this.logger)
+    this.scopes = options.auth?.scopes || DEFAULT_SPOTIFY_SCOPES
+    this.usePkce = options.auth?.pkce ?? !credentials.clientSecret
+    this.authAttempts = new AuthAttemptRegistry(options.auth?.attemptTtlMs)
+    this.sessionId = options.sessionId || "default"
+    this.tokenStore = options.auth?.tokenStore
+    this.onTokensRefreshed = options.auth?.onTokensRefreshed
+    this.spotify =
+      options.client ||
+      new SpotifyWebApi({
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        redirectUri: credentials.redirectUri,
+      })
   }
 
   private async ensureValidToken(): Promise<void> {
-    try {
-      if (Date.now() >= this.tokenExpirationTime) {
-        this.logger.info("Token expired or missing, refreshing...")
+    await this.restoreSession()
+    if (Date.now() < this.tokenExpirationTime) return
+
+    this.logger.info("Token expired or missing, refreshing...")
+    await this.refreshSessionToken()
+  }
+
+  // Recharge une seule fois les tokens persistés, sauf si des tokens ont déjà été fournis.
+  // Un échec de lecture n'est pas mémorisé : la lecture sera retentée au prochain appel
+  restoreSession(): Promise<boolean> {
+    if (!this.restored) {
+      this.restored = (async () => {
+        if (!this.tokenStore || this.tokenExpirationTime > 0) return false
+
+        try {
+          const stored = await this.tokenStore.get(this.sessionId)
+          if (!stored) return false
+
+          this.applyTokens(stored, stored.expiresAt)
+          this.logger.info("Restored stored Spotify tokens", {
+            sessionId: this.sessionId,
+          })
+          return true
+        } catch (error) {
+          this.logger.warn("Could not read stored Spotify tokens", {
+            sessionId: this.sessionId,
+            error: (error as Error)?.message,
+          })
+          this.restored = undefined
+          return false
+        }
+      })()
+    }
+    return this.restored
+  }
+
+  // Un seul rafraîchissement à la fois, partagé par les appels concurrents
+  private refreshSessionToken(): Promise<SpotifyAuthTokens> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = (async () => {
         const refreshToken = this.spotify.getRefreshToken()
 
         if (!refreshToken) {
           this.logger.warn("No refresh token available, need to re-authenticate")
-          throw new Error("Authentication required")
+          throw new AuthRequiredError("Authentication required", {
+            operation: "refreshToken",
+          })
         }
 
-        const data = await this.spotify.refreshAccessToken()
-        this.spotify.setAccessToken(data.body["access_token"])
-        this.tokenExpirationTime = Date.now() + data.body["expires_in"] * 1000
-        this.retryCount = 0
+        const data = await this.requestTokenRefresh(refreshToken).catch((error) => {
+          throw this.tokenError(error, "refreshToken", "Failed to refresh Spotify token")
+        })
+        const tokens = {
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token || refreshToken,
+          expiresIn: data.expires_in,
+        }
+        await this.persistTokens(this.applyTokens(tokens), true)
         this.logger.info("Token refreshed successfully", {
-          expiresIn: data.body["expires_in"],
+          expiresIn: data.expires_in,
+          rotated: !!data.refresh_token && data.refresh_token !== refreshToken,
         })
-      }
-    } catch (error: any) {
-      this.logger.error("Error in ensureValidToken", error)
-
-      if (this.retryCount < this.MAX_RETRIES) {
-        this.retryCount++
-        this.logger.warn(`Retry attempt ${this.retryCount}/${this.MAX_RETRIES}`)
-        await new Promise((resolve) => setTimeout(resolve, 1000 * this.retryCount))
-        return this.ensureValidToken()
-      }
-
-      throw error
+        return tokens
+      })().finally(() => {
+        this.pendingRefresh = undefined
+      })
     }
+    return this.pendingRefresh
   }
 
-  private async makeSpotifyRequest<T>(request: () => Promise<T>): Promise<T> {
+  // Point de passage unique des appels à l'API Spotify ; les échecs restants
+  // (après les nouvelles tentatives) sont convertis en erreurs typées
+  private async makeSpotifyRequest<T>(
+    label: string,
+    request: () => Promise<T>,
+    options: Pick<ScheduleOptions, "idempotent"> = {}
+  ): Promise<T> {
     try {
-      await this.ensureValidToken()
-      return await request()
-    } catch (error: any) {
-      if (
-        (error.statusCode === 401 || error.statusCode === 429) &&
-        this.retryCount < this.MAX_RETRIES
-      ) {
-        this.retryCount++
-        const delay = 1000 * this.retryCount
-        this.logger.warn(
-          `API request failed, retry attempt ${this.retryCount}/${this.MAX_RETRIES}`
-        )
-        await new Promise((resolve) => setTimeout(resolve, delay))
-        return this.makeSpotifyRequest(request)
-      }
-      throw error
+      return await this.scheduler.schedule(
+        async () => {
+          await this.ensureValidToken()
+          return request()
+        },
+        { ...options, label, onUnauthorized: () => this.refreshSessionToken() }
+      )
+    } catch (error) {
+      throw toPlaylistGeniusError(error, { operation: label, provider: "spotify" })
     }
   }
 
-  getAuthorizationUrl(): string {
-    const scopes = [
-      "user-read-private",
-      "user-read-email",
-      "user-top-read",
-      "user-read-recently-played",
-      "playlist-modify-public",
-      "playlist-modify-private",
-      "user-library-read",
-      "user-library-modify",
-    ]
-
-    this.logger.debug("Requesting scopes:", scopes)
-    return this.spotify.createAuthorizeURL(scopes, "state")
+  // Spotify répond 400 (invalid_grant) pour un code ou un refresh token refusé
+  private tokenError(
+    error: unknown,
+    operation: string,
+    message: string
+  ): PlaylistGeniusError {
+    if (error instanceof PlaylistGeniusError) return error
+    const status = statusCodeOf(error)
+    return status === 400 || status === 401
+      ? new AuthRequiredError(message, { operation, cause: error })
+      : toPlaylistGeniusError(error, { operation, provider: "spotify", message })
   }
 
-  async getTokens(code: string): Promise<SpotifyAuthTokens> {
+  // Chaque appel crée une tentative avec son propre state (et code verifier en PKCE)
+  getAuthorizationUrl(scopes: string[] = this.scopes): string {
+    const attempt = this.authAttempts.begin(this.usePkce)
+    this.logger.debug("Requesting scopes:", { scopes, pkce: this.usePkce })
+
+    if (!attempt.codeVerifier) {
+      return this.spotify.createAuthorizeURL(scopes, attempt.state)
+    }
+
+    const params = new URLSearchParams({
+      client_id: this.credentials.clientId,
+      response_type: "code",
+      redirect_uri: this.credentials.redirectUri || "",
+      code_challenge_method: "S256",
+      code_challenge: codeChallengeFor(attempt.codeVerifier),
+      state: attempt.state,
+      scope: scopes.join(" "),
+    })
+    return `${SPOTIFY_ACCOUNTS_URL}/authorize?${params.toString()}`
+  }
+
+  // Le state renvoyé par Spotify doit correspondre à une tentative en cours
+  async getTokens(code: string, state: string): Promise<SpotifyAuthTokens> {
+    const attempt = this.authAttempts.consume(state)
+
     try {
-      this.logger.debug("Getting tokens with authorization code")
-      const data = await this.spotify.authorizationCodeGrant(code)
+      this.logger.debug("Getting tokens with authorization code", {
+        pkce: !!attempt.codeVerifier,
+      })
+      const data: SpotifyTokenResponse = attempt.codeVerifier
+        ? await this.requestAccountsToken({
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: this.credentials.redirectUri || "",
+            client_id: this.credentials.clientId,
+            code_verifier: attempt.codeVerifier,
+          })
+        : (await this.spotify.authorizationCodeGrant(code)).body
 
       const tokens = {
-        accessToken: data.body["access_token"],
-        refreshToken: data.body["refresh_token"],
-        expiresIn: data.body["expires_in"],
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || "",
+        expiresIn: data.expires_in,
       }
 
-      this.logger.debug("Getting tokens with authorization code")
-      this.setTokens(tokens)
+      await this.persistTokens(this.applyTokens(tokens), true)
       return tokens
     } catch (error) {
       this.logger.error("Error getting tokens", error)
-      throw new Error("Failed to get Spotify tokens")
+      throw this.tokenError(error, "getTokens", "Failed to get Spotify tokens")
     }
   }
 
   setTokens(tokens: SpotifyAuthTokens): void {
     this.logger.debug("Setting tokens")
-    this.spotify.setAccessToken(tokens.accessToken)
-    if (tokens.refreshToken) {
-      this.spotify.setRefreshToken(tokens.refreshToken)
-    }
-    this.tokenExpirationTime = Date.now() + tokens.expiresIn * 1000
+    const stored = this.applyTokens(tokens)
     this.logger.debug("Tokens set successfully", {
       expiresIn: tokens.expiresIn,
       hasRefreshToken: !!tokens.refreshToken,
     })
+    void this.persistTokens(stored, false)
   }
 
   async refreshAccessToken(): Promise<SpotifyAuthTokens> {
     try {
       this.logger.debug("Refreshing access token")
-      const data = await this.spotify.refreshAccessToken()
-
-      const tokens = {
-        accessToken: data.body["access_token"],
-        refreshToken: this.spotify.getRefreshToken() || "",
-        expiresIn: data.body["expires_in"],
-      }
-
-      this.setTokens(tokens)
+      await this.restoreSession()
+      const tokens = await this.refreshSessionToken()
       this.logger.info("Access token refreshed successfully")
       return tokens
     } catch (error) {
       this.logger.error("Error refreshing token", error)
-      throw new Error("Failed to refresh Spotify token")
+      throw this.tokenError(error, "refreshToken", "Failed to refresh Spotify token")
+    }
+  }
+
+  async handleAuthCallback(code: string, state: string): Promise<SpotifyAuthTokens> {
+    return this.getTokens(code, state)
+  }
+
+  // En PKCE, Spotify exige client_id sans secret et renvoie un nouveau refresh token
+  private async requestTokenRefresh(refreshToken: string): Promise<SpotifyTokenResponse> {
+    if (!this.usePkce) {
+      return (await this.spotify.refreshAccessToken()).body
     }
+    return this.requestAccountsToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: this.credentials.clientId,
+    })
   }
 
-  async handleAuthCallback(code: string): Promise<SpotifyAuthTokens> {
-    const data = await this.spotify.authorizationCodeGrant(code)
+  private applyTokens(
+    tokens: SpotifyAuthTokens,
+    expiresAt: number = Date.now() + tokens.expiresIn * 1000
+  ): StoredSpotifyTokens {
+    this.spotify.setAccessToken(tokens.accessToken)
+    if (tokens.refreshToken) {
+      this.spotify.setRefreshToken(tokens.refreshToken)
+    }
+    this.tokenExpirationTime = expiresAt
+    return { ...tokens, expiresAt }
+  }
 
-    const tokens = {
-      accessToken: data.body["access_token"],
-      refreshToken: data.body["refresh_token"],
-      expiresIn: data.body["expires_in"],
+  // Un échec de persistance n'invalide pas les tokens déjà appliqués
+  private async persistTokens(
+    tokens: StoredSpotifyTokens,
+    notify: boolean
+  ): Promise<void> {
+    try {
+      await this.tokenStore?.set(this.sessionId, tokens)
+      if (notify) await this.onTokensRefreshed?.(tokens)
+    } catch (error) {
+      this.logger.error("Error persisting Spotify tokens", error, {
+        sessionId: this.sessionId,
+      })
     }
+  }
+
+  private async requestAccountsToken(
+    params: Record<string, string>
+  ): Promise<SpotifyTokenResponse> {
+    const response = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(params).toString(),
+    })
 
-    this.setTokens(tokens)
-    return tokens
+    if (!response.ok) {
+      const detail = await response.text()
+      throw Object.assign(
+        new Error(`Spotify token request failed (${response.status}): ${detail}`),
+        { statusCode: response.status }
+      )
+    }
+    return (await response.json()) as SpotifyTokenResponse
   }
 
   async searchTracks(
@@ -181,9 +361,9 @@ export class SpotifyService {
   ): Promise<SpotifyApi.TrackObjectFull[]> {
     try {
       this.logger.debug("Searching tracks", { query, limit })
-      await this.ensureValidToken()
-
-      const response = await this.spotify.searchTracks(query, { limit })
+      const response = await this.makeSpotifyRequest("searchTracks", () =>
+        this.spotify.searchTracks(query, { limit })
+      )
       const tracks = response.body.tracks?.items || []
 
       this.logger.info("Track search completed", {
@@ -198,10 +378,48 @@ export class SpotifyService {
     }
   }
 
+  // Récupère plusieurs candidats et garde celui qui correspond le mieux à la chanson
+  async matchTrack(
+    song: MatchTarget,
+    options: TrackMatchOptions = {}
+  ): Promise<TrackMatch> {
+    const limit = options.limit ?? 10
+    const minScore = options.minScore ?? 0.7
+    const primaryArtist = splitArtists(song.artist)[0] || song.artist
+
+    let candidates = await this.searchTracks(
+      `track:${song.title} artist:${primaryArtist}`,
+      limit
+    )
+    if (!candidates.length) {
+      candidates = await this.searchTracks(`${song.title} ${primaryArtist}`, limit)
+    }
+
+    const scored = candidates
+      .map((track) => ({ track, ...scoreTrackMatch(song, toCatalogTrack(track)) }))
+      .sort((a, b) => b.score - a.score)
+
+    const [best, ...rest] = scored
+    const match =
+      best && best.score >= minScore
+        ? { track: best.track, score: best.score, alternatives: rest }
+        : { track: null, score: best?.score ?? 0, alternatives: scored }
+
+    this.logger.debug("Track match completed", {
+      title: song.title,
+      artist: song.artist,
+      matched: match.track?.id,
+      score: match.score,
+      candidates: scored.length,
+    })
+
+    return match
+  }
+
   async getTrackFeatures(trackId: string): Promise<SpotifyApi.AudioFeaturesObject> {
     this.logger.debug("Getting track features", { trackId })
     try {
-      const cached = this.cacheService?.get<SpotifyApi.AudioFeaturesObject>({
+      const cached = await this.cacheService.get<SpotifyApi.AudioFeaturesObject>({
         type: "audio_features",
         criteria: { trackId },
       })
@@ -211,9 +429,10 @@ export class SpotifyService {
         return cached
       }
 
-      await this.ensureValidToken()
-      const response = await this.spotify.getAudioFeaturesForTrack(trackId)
-      this.cacheService?.set(
+      const response = await this.makeSpotifyRequest("getAudioFeaturesForTrack", () =>
+        this.spotify.getAudioFeaturesForTrack(trackId)
+      )
+      await this.cacheService.set(
         {
           type: "audio_features",
           criteria: { trackId },
@@ -229,32 +448,15 @@ export class SpotifyService {
   }
 
   async getArtist(artistId: string): Promise<SpotifyApi.ArtistObjectFull> {
-    await this.ensureValidToken()
-    try {
-      const response = await this.spotify.getArtist(artistId)
-      return response.body
-    } catch (error) {
-      this.logger.error("Error getting artist:", error)
-      return {
-        id: artistId,
-        name: "",
-        type: "artist",
-        uri: `spotify:artist:${artistId}`,
-        genres: [],
-        href: "",
-        external_urls: { spotify: "" },
-        followers: { href: null, total: 0 },
-        images: [],
-        popularity: 0,
-      }
-    }
+    const response = await this.makeSpotifyRequest("getArtist", () =>
+      this.spotify.getArtist(artistId)
+    )
+    return response.body
   }
 
   async getRecommendations(
     criteria: PlaylistCriteria
   ): Promise<SpotifyApi.TrackObjectSimplified[]> {
-    await this.ensureValidToken()
-
     const params: SpotifyApi.RecommendationsOptionsObject = {
       limit: 20,
       seed_genres: [],
@@ -298,43 +500,57 @@ export class SpotifyService {
       }
     }
 
-    const response = await this.spotify.getRecommendations(params)
+    const response = await this.makeSpotifyRequest("getRecommendations", () =>
+      this.spotify.getRecommendations(params)
+    )
     return response.body.tracks
   }
 
   async createPlaylist(userId: string, name: string, tracks: string[]): Promise<string> {
-    await this.ensureValidToken()
-
     // Créer la playlist avec le bon typage
-    const playlist = await this.spotify.createPlaylist(name, {
-      description: "Created by PlaylistGenius",
-      public: false,
-    })
+    const playlist = await this.makeSpotifyRequest(
+      "createPlaylist",
+      () =>
+        this.spotify.createPlaylist(name, {
+          description: "Created by PlaylistGenius",
+          public: false,
+        }),
+      { idempotent: false }
+    )
 
     if (!playlist.body.id) {
-      throw new Error("Failed to create playlist")
+      throw new ValidationError("Failed to create playlist", {
+        operation: "createPlaylist",
+      })
     }
 
-    // Ajouter les tracks avec le bon format
-    await this.spotify.addTracksToPlaylist(
-      playlist.body.id,
-      tracks.map((id) => `spotify:track:${id}`)
-    )
+    // Ajouter les tracks avec le bon format, par lots de 100 (limite de l'API)
+    for (const batch of chunk(tracks, PLAYLIST_TRACKS_BATCH_SIZE)) {
+      await this.makeSpotifyRequest(
+        "addTracksToPlaylist",
+        () =>
+          this.spotify.addTracksToPlaylist(
+            playlist.body.id!,
+            batch.map((id) => `spotify:track:${id}`)
+          ),
+        { idempotent: false }
+      )
+    }
 
     return playlist.body.id
   }
 
   async getTopTracks(artistId: string): Promise<SpotifyApi.TrackObjectFull[]> {
-    await this.ensureValidToken()
-
-    const response = await this.spotify.getArtistTopTracks(artistId, "US")
+    const response = await this.makeSpotifyRequest("getArtistTopTracks", () =>
+      this.spotify.getArtistTopTracks(artistId, "US")
+    )
     return response.body.tracks
   }
 
   async getSimilarArtists(artistId: string): Promise<SpotifyApi.ArtistObjectFull[]> {
-    await this.ensureValidToken()
-
-    const response = await this.spotify.getArtistRelatedArtists(artistId)
+    const response = await this.makeSpotifyRequest("getArtistRelatedArtists", () =>
+      this.spotify.getArtistRelatedArtists(artistId)
+    )
     return response.body.artists
   }
 
@@ -342,116 +558,214 @@ export class SpotifyService {
     timeRange: "short_term" | "medium_term" | "long_term",
     limit: number = 50
   ): Promise<SpotifyApi.TrackObjectFull[]> {
-    return this.makeSpotifyRequest(async () => {
-      this.logger.info(`Getting user top tracks for ${timeRange}...`)
+    this.logger.info(`Getting user top tracks for ${timeRange}...`)
 
-      try {
-        const topTracks = await this.spotify.getMyTopTracks({
+    try {
+      const topTracks = await this.makeSpotifyRequest("getMyTopTracks", () =>
+        this.spotify.getMyTopTracks({
           time_range: timeRange,
           limit,
         })
+      )
 
-        if (topTracks.body.items.length === 0) {
-          this.logger.warn("No top tracks found, fetching recently played tracks...")
-          const recentTracks = await this.getRecentlyPlayed(limit)
-          const uniqueTracks = new Map<string, SpotifyApi.TrackObjectFull>()
+      if (topTracks.body.items.length === 0) {
+        this.logger.warn("No top tracks found, fetching recently played tracks...")
+        const recentTracks = await this.getRecentlyPlayed(limit)
+        const uniqueTracks = new Map<string, SpotifyApi.TrackObjectFull>()
 
-          recentTracks.forEach((item) => {
-            if (!uniqueTracks.has(item.track.id)) {
-              uniqueTracks.set(item.track.id, item.track)
-            }
-          })
+        recentTracks.forEach((item) => {
+          if (!uniqueTracks.has(item.track.id)) {
+            uniqueTracks.set(item.track.id, item.track)
+          }
+        })
 
-          const tracks = Array.from(uniqueTracks.values())
-          if (tracks.length > 0) return tracks
+        const tracks = Array.from(uniqueTracks.values())
+        if (tracks.length > 0) return tracks
 
-          this.logger.info("No recent tracks found, getting recommendations...")
-          return this.getNewUserRecommendations()
-        }
-
-        return topTracks.body.items
-      } catch (error) {
-        this.logger.error("Error in getUserTopTracks:", error)
+        this.logger.info("No recent tracks found, getting recommendations...")
         return this.getNewUserRecommendations()
       }
-    })
+
+      return topTracks.body.items
+    } catch (error) {
+      if (isUnrecoverableError(error)) throw error
+      this.logger.error("Error in getUserTopTracks:", error)
+      return this.getNewUserRecommendations()
+    }
   }
 
   async getRecentlyPlayed(limit: number = 50): Promise<SpotifyApi.PlayHistoryObject[]> {
-    await this.ensureValidToken()
     try {
-      const response = await this.spotify.getMyRecentlyPlayedTracks({ limit })
+      const response = await this.makeSpotifyRequest("getMyRecentlyPlayedTracks", () =>
+        this.spotify.getMyRecentlyPlayedTracks({ limit })
+      )
       return response.body.items
     } catch (error) {
+      if (isUnrecoverableError(error)) throw error
       this.logger.error("Error getting recently played tracks:", error)
       return []
     }
   }
 
   async getNewUserRecommendations(): Promise<SpotifyApi.TrackObjectFull[]> {
-    return this.makeSpotifyRequest(async () => {
-      try {
-        const seedGenres = ["pop", "rock", "hip-hop", "electronic", "indie"]
+    try {
+      const seedGenres = ["pop", "rock", "hip-hop", "electronic", "indie"]
 
-        const recommendations = await this.spotify.getRecommendations({
+      const recommendations = await this.makeSpotifyRequest("getRecommendations", () =>
+        this.spotify.getRecommendations({
           seed_genres: seedGenres.slice(0, 2),
           target_popularity: 75,
           limit: 20,
         })
+      )
 
-        const trackIds = recommendations.body.tracks.map((track) => track.id)
-        const fullTracksResponse = await this.spotify.getTracks(trackIds)
+      const trackIds = recommendations.body.tracks.map((track) => track.id)
+      const fullTracksResponse = await this.makeSpotifyRequest("getTracks", () =>
+        this.spotify.getTracks(trackIds)
+      )
 
-        return fullTracksResponse.body.tracks
-      } catch (error) {
-        this.logger.error("Error getting new user recommendations:", error)
-        return []
-      }
-    })
+      return fullTracksResponse.body.tracks
+    } catch (error) {
+      if (isUnrecoverableError(error)) throw error
+      this.logger.error("Error getting new user recommendations:", error)
+      return []
+    }
   }
 
-  private async getTracksAudioFeatures(
+  // Récupère les audio features par lots de 100, en réutilisant le cache ;
+  // un lot en échec est journalisé et ignoré, sauf erreur d'authentification ou annulation
+  async getTracksAudioFeatures(
     trackIds: string[]
   ): Promise<SpotifyApi.AudioFeaturesObject[]> {
-    const BATCH_SIZE = 100
-    const results: SpotifyApi.AudioFeaturesObject[] = []
-
-    // Diviser les trackIds en batches
-    for (let i = 0; i < trackIds.length; i += BATCH_SIZE) {
-      const batch = trackIds.slice(i, i + BATCH_SIZE)
-
-      // Vérifier quels tracks sont déjà en cache
-      const uncachedTracks = batch.filter(
-        (id) =>
-          !this.cacheService?.get({
-            type: "audio_features",
-            criteria: { trackId: id },
-          })
+    const ids = [...new Set(trackIds)]
+    const features = new Map<string, SpotifyApi.AudioFeaturesObject>()
+
+    const cachedItems = await Promise.all(
+      ids.map((id) =>
+        this.cacheService.get<SpotifyApi.AudioFeaturesObject>({
+          type: "audio_features",
+          criteria: { trackId: id },
+        })
       )
+    )
+    const uncachedIds = ids.filter((id, index) => {
+      const cached = cachedItems[index]
+      if (cached) features.set(id, cached)
+      return !cached
+    })
 
-      if (uncachedTracks.length > 0) {
-        await this.ensureValidToken()
-        const response = await this.spotify.getAudioFeaturesForTracks(uncachedTracks)
-
-        // Mettre en cache les nouveaux résultats
-        response.body.audio_features.forEach((features, index) => {
-          if (features) {
-            this.cacheService?.set(
-              {
-                type: "audio_features",
-                criteria: { trackId: uncachedTracks[index] },
-              },
-              features
-            )
-          }
+    this.logger.debug("Getting audio features in batches", {
+      requested: ids.length,
+      cached: features.size,
+    })
+
+    const batches = chunk(uncachedIds, AUDIO_FEATURES_BATCH_SIZE)
+    const results = await mapWithConcurrency(
+      batches,
+      this.batchConcurrency,
+      async (batch) => {
+        const response = await this.makeSpotifyRequest("getAudioFeaturesForTracks", () =>
+          this.spotify.getAudioFeaturesForTracks(batch)
+        )
+        return response.body.audio_features
+      }
+    )
+
+    const fatal = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === "rejected" && isUnrecoverableError(result.reason)
+    )
+    if (fatal) throw fatal.reason
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.logger.error("Error getting audio features batch", result.reason, {
+          batchSize: batches[index].length,
         })
+        return
       }
 
-      const batchResults = await Promise.all(batch.map((id) => this.getTrackFeatures(id)))
+      result.value.forEach((item, position) => {
+        if (!item) return
+        const trackId = batches[index][position]
+        features.set(trackId, item)
+        void this.cacheService.set(
+          { type: "audio_features", criteria: { trackId } },
+          item
+        )
+      })
+    })
 
-      results.push(...batchResults)
+    const missing = ids.filter((id) => !features.has(id))
+    if (missing.length) {
+      this.logger.warn("Audio features unavailable for some tracks", {
+        missingCount: missing.length,
+      })
     }
 
-    return results
+    return trackIds
+      .map((id) => features.get(id))
+      .filter((item): item is SpotifyApi.AudioFeaturesObject => !!item)
+  }
+
+  // Récupère les artistes par lots de 50, en réutilisant le cache ;
+  // un lot en échec est journalisé et ignoré, sauf erreur d'authentification ou annulation
+  async getArtists(artistIds: string[]): Promise<SpotifyApi.ArtistObjectFull[]> {
+    const ids = [...new Set(artistIds)]
+    const artists = new Map<string, SpotifyApi.ArtistObjectFull>()
+
+    const cachedArtists = await Promise.all(
+      ids.map((id) =>
+        this.cacheService.get<SpotifyApi.ArtistObjectFull>({
+          type: "artist",
+          criteria: { artistId: id },
+        })
+      )
+    )
+    const uncachedIds = ids.filter((id, index) => {
+      const cached = cachedArtists[index]
+      if (cached) artists.set(id, cached)
+      return !cached
+    })
+
+    const batches = chunk(uncachedIds, ARTISTS_BATCH_SIZE)
+    const results = await mapWithConcurrency(
+      batches,
+      this.batchConcurrency,
+      async (batch) => {
+        const response = await this.makeSpotifyRequest("getArtists", () =>
+          this.spotify.getArtists(batch)
+        )
+        return response.body.artists
+      }
+    )
+
+    const fatal = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === "rejected" && isUnrecoverableError(result.reason)
+    )
+    if (fatal) throw fatal.reason
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.logger.error("Error getting artists batch", result.reason, {
+          batchSize: batches[index].length,
+        })
+        return
+      }
+
+      result.value.forEach((artist) => {
+        if (!artist) return
+        artists.set(artist.id, artist)
+        void this.cacheService.set(
+          { type: "artist", criteria: { artistId: artist.id } },
+          artist
+        )
+      })
+    })
+
+    return ids
+      .map((id) => artists.get(id))
+      .filter((artist): artist is SpotifyApi.ArtistObjectFull => !!artist)
   }
 }
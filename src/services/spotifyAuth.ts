@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from "crypto"
+import { InvalidAuthStateError } from "../errors"
+
+export const DEFAULT_SPOTIFY_SCOPES = [
+  "user-read-private",
+  "user-read-email",
+  "user-top-read",
+  "user-read-recently-played",
+  "playlist-modify-public",
+  "playlist-modify-private",
+  "user-library-read",
+  "user-library-modify",
+]
+
+const DEFAULT_ATTEMPT_TTL_MS = 10 * 60 * 1000
+
+export interface AuthAttempt {
+  state: string
+  codeVerifier?: string // présent uniquement en mode PKCE
+  expiresAt: number
+}
+
+// base64url sans padding (RFC 7636)
+function base64Url(buffer: Buffer): string {
+  return buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+export function generateCodeVerifier(): string {
+  return base64Url(randomBytes(64))
+}
+
+export function codeChallengeFor(verifier: string): string {
+  return base64Url(createHash("sha256").update(verifier).digest())
+}
+
+// Tentatives d'autorisation en cours, indexées par state
+export class AuthAttemptRegistry {
+  private attempts = new Map<string, AuthAttempt>()
+
+  constructor(
+    private ttlMs: number = DEFAULT_ATTEMPT_TTL_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  begin(pkce: boolean): AuthAttempt {
+    this.purgeExpired()
+    const attempt: AuthAttempt = {
+      state: base64Url(randomBytes(16)),
+      codeVerifier: pkce ? generateCodeVerifier() : undefined,
+      expiresAt: this.now() + this.ttlMs,
+    }
+    this.attempts.set(attempt.state, attempt)
+    return attempt
+  }
+
+  // Une tentative ne peut être consommée qu'une seule fois
+  consume(state: string | undefined): AuthAttempt {
+    const attempt = state ? this.attempts.get(state) : undefined
+    if (!state || !attempt) {
+      throw new InvalidAuthStateError("Unknown or missing OAuth state")
+    }
+    this.attempts.delete(state)
+    if (attempt.expiresAt <= this.now()) {
+      throw new InvalidAuthStateError("OAuth state expired")
+    }
+    return attempt
+  }
+
+  get size(): number {
+    this.purgeExpired()
+    return this.attempts.size
+  }
+
+  private purgeExpired(): void {
+    const now = this.now()
+    for (const [state, attempt] of this.attempts) {
+      if (attempt.expiresAt <= now) this.attempts.delete(state)
+    }
+  }
+}
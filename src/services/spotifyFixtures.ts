@@ -0,0 +1,52 @@
+import SpotifyWebApi from "spotify-web-api-node"
+import { FixtureStore } from "./fixtureStore"
+
+// Accesseurs locaux et méthodes internes du client, jamais enregistrés
+const PASSTHROUGH_METHODS =
+  /^_|^(get|set|reset)(AccessToken|RefreshToken|Credentials|ClientId|ClientSecret|RedirectURI)$|^createAuthorizeURL$/
+
+// Enveloppe le client Spotify pour enregistrer ou rejouer chaque appel d'API
+export function withSpotifyFixtures(
+  client: SpotifyWebApi,
+  store: FixtureStore
+): SpotifyWebApi {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver)
+      if (
+        typeof value !== "function" ||
+        typeof property !== "string" ||
+        PASSTHROUGH_METHODS.test(property)
+      ) {
+        return value
+      }
+
+      return async (...args: unknown[]) => {
+        const request = { method: property, args }
+
+        if (store.mode === "replay") {
+          const entry = store.replay("spotify", request)
+          if (entry.error) {
+            throw Object.assign(new Error(entry.error.message), {
+              statusCode: entry.error.statusCode,
+            })
+          }
+          return entry.response
+        }
+
+        try {
+          const response = await value.apply(target, args)
+          store.record({ channel: "spotify", request, response })
+          return response
+        } catch (error: any) {
+          store.record({
+            channel: "spotify",
+            request,
+            error: { message: error?.message, statusCode: error?.statusCode },
+          })
+          throw error
+        }
+      }
+    },
+  })
+}
@@ -0,0 +1,145 @@
+import { ContextLogger } from "./logger"
+import { Tracer } from "./tracing"
+import { ConcurrencyLimiter } from "../utils/concurrency"
+import { sleep, toCancelledError } from "../utils/abort"
+import { headerOf, statusCodeOf } from "../errors"
+
+export interface SpotifySchedulerOptions {
+  maxRetries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  limiter?: ConcurrencyLimiter // requêtes simultanées (file partagée)
+  signal?: () => AbortSignal | undefined // annulation de l'appel public en cours
+  // Points d'injection pour les tests
+  now?: () => number
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void> // interrompue par le signal
+  random?: () => number
+}
+
+export interface ScheduleOptions {
+  label?: string
+  onUnauthorized?: () => Promise<unknown> // rafraîchit le token avant de réessayer
+  // false pour une écriture (création de playlist, ajout de titres) : une erreur 5xx
+  // peut survenir après son application, elle n'est donc pas réessayée
+  idempotent?: boolean
+}
+
+const RETRYABLE_STATUS = new Set([401, 429, 500, 502, 503, 504])
+// Réponses garantissant que la requête n'a pas été traitée
+const REJECTED_STATUS = new Set([401, 429])
+
+// Planifie les appels Spotify : respecte Retry-After en mettant en attente tous
+// les appelants pendant la pause, et réessaie avec un backoff exponentiel
+export class SpotifyRequestScheduler {
+  private cooldownUntil = 0
+  private maxRetries: number
+  private baseDelayMs: number
+  private maxDelayMs: number
+  private now: () => number
+  private sleep: (ms: number, signal?: AbortSignal) => Promise<void>
+  private random: () => number
+  private limiter?: ConcurrencyLimiter
+  private currentSignal: () => AbortSignal | undefined
+
+  constructor(
+    options: SpotifySchedulerOptions = {},
+    private logger?: ContextLogger,
+    private tracer?: Tracer
+  ) {
+    this.maxRetries = options.maxRetries ?? 3
+    this.baseDelayMs = options.baseDelayMs ?? 500
+    this.maxDelayMs = options.maxDelayMs ?? 30000
+    this.now = options.now || Date.now
+    this.sleep = options.sleep || sleep
+    this.random = options.random || Math.random
+    this.limiter = options.limiter
+    this.currentSignal = options.signal || (() => undefined)
+  }
+
+  async schedule<T>(
+    request: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    if (!this.tracer) return this.execute(request, options)
+    return this.tracer.run(
+      `spotify.${options.label || "request"}`,
+      () => this.execute(request, options),
+      { kind: "client" }
+    )
+  }
+
+  private async execute<T>(
+    request: () => Promise<T>,
+    options: ScheduleOptions
+  ): Promise<T> {
+    const signal = this.currentSignal()
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForCooldown(signal)
+      // Pas de nouvel essai pour un appel annulé
+      if (signal?.aborted) throw toCancelledError(signal.reason, options.label)
+
+      try {
+        return await (this.limiter ? this.limiter.run(request, signal) : request())
+      } catch (error) {
+        const status = statusCodeOf(error)
+        const canRetry =
+          attempt < this.maxRetries &&
+          status !== undefined &&
+          RETRYABLE_STATUS.has(status) &&
+          (options.idempotent !== false || REJECTED_STATUS.has(status)) &&
+          (status !== 401 || !!options.onUnauthorized)
+        if (!canRetry) throw error
+
+        if (status === 429) {
+          const delay =
+            this.parseRetryAfter(headerOf(error, "retry-after")) ?? this.backoff(attempt)
+          this.cooldownUntil = Math.max(this.cooldownUntil, this.now() + delay)
+          this.logger?.warn("Spotify rate limit reached, pausing requests", {
+            label: options.label,
+            delayMs: delay,
+            attempt: attempt + 1,
+          })
+        } else if (status === 401) {
+          this.logger?.warn("Spotify request unauthorized, refreshing token", {
+            label: options.label,
+            attempt: attempt + 1,
+          })
+          await options.onUnauthorized!()
+        } else {
+          const delay = this.backoff(attempt)
+          this.logger?.warn("Spotify request failed, retrying", {
+            label: options.label,
+            status,
+            delayMs: delay,
+            attempt: attempt + 1,
+          })
+          await this.sleep(delay, signal)
+        }
+      }
+    }
+  }
+
+  // Les attentes rejettent avec une CancelledError dès l'annulation de l'appel
+  private async waitForCooldown(signal?: AbortSignal): Promise<void> {
+    let remaining = this.cooldownUntil - this.now()
+    while (remaining > 0) {
+      await this.sleep(remaining, signal)
+      remaining = this.cooldownUntil - this.now()
+    }
+  }
+
+  // Backoff exponentiel avec jitter (entre 50% et 100% du délai)
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt)
+    return Math.round(delay * (0.5 + this.random() / 2))
+  }
+
+  // Retry-After : nombre de secondes ou date HTTP
+  private parseRetryAfter(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === "") return undefined
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(String(value))
+    return Number.isNaN(date) ? undefined : Math.max(0, date - this.now())
+  }
+}
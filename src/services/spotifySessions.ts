@@ -0,0 +1,88 @@
+import SpotifyWebApi from "spotify-web-api-node"
+import { SpotifyAuthOptions, SpotifyCredentials } from "../types"
+import { CacheService } from "./cache"
+import { LoggerService } from "./logger"
+import { SpotifyService } from "./spotify"
+import { SpotifyRequestScheduler, SpotifySchedulerOptions } from "./spotifyScheduler"
+import { Tracer } from "./tracing"
+
+export const DEFAULT_SESSION_ID = "default"
+
+// L'identifiant est encodé : "a" ne doit pas être un préfixe de l'espace de "a:b"
+export function userCacheNamespace(userId: string): string {
+  return `user:${encodeURIComponent(userId)}`
+}
+
+export interface SpotifySessionRegistryOptions {
+  createClient?: () => SpotifyWebApi // un client par session : les tokens y sont stockés
+  auth?: SpotifyAuthOptions
+  tracer?: Tracer // un span par requête Spotify
+  scheduler?: SpotifySchedulerOptions
+}
+
+// Session Spotify d'un utilisateur : ses tokens et son espace de cache
+export class SpotifySession {
+  readonly cacheNamespace: string
+
+  constructor(
+    readonly userId: string,
+    readonly service: SpotifyService
+  ) {
+    this.cacheNamespace = userCacheNamespace(userId)
+  }
+}
+
+// Sessions indexées par identifiant utilisateur, créées à la demande.
+// Le planificateur (limites de débit) et le cache sont partagés.
+export class SpotifySessionRegistry {
+  private sessions = new Map<string, SpotifySession>()
+  private scheduler: SpotifyRequestScheduler
+
+  constructor(
+    private credentials: SpotifyCredentials,
+    private cacheService: CacheService,
+    private loggerService: LoggerService,
+    private options: SpotifySessionRegistryOptions = {}
+  ) {
+    this.scheduler = new SpotifyRequestScheduler(
+      options.scheduler,
+      loggerService.createContextLogger("SpotifyScheduler"),
+      options.tracer
+    )
+  }
+
+  get(userId: string = DEFAULT_SESSION_ID): SpotifySession {
+    let session = this.sessions.get(userId)
+    if (!session) {
+      const service = new SpotifyService(
+        this.credentials,
+        this.cacheService,
+        this.loggerService,
+        {
+          client: this.options.createClient?.(),
+          scheduler: this.scheduler,
+          auth: this.options.auth,
+          sessionId: userId,
+        }
+      )
+      session = new SpotifySession(userId, service)
+      this.sessions.set(userId, session)
+    }
+    return session
+  }
+
+  has(userId: string): boolean {
+    return this.sessions.has(userId)
+  }
+
+  // Déconnexion : oublie la session, ses tokens enregistrés et son cache
+  async remove(userId: string): Promise<void> {
+    this.sessions.delete(userId)
+    await this.cacheService.clearNamespace(userCacheNamespace(userId))
+    await this.options.auth?.tokenStore?.delete(userId)
+  }
+
+  get size(): number {
+    return this.sessions.size
+  }
+}
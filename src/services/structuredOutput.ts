@@ -0,0 +1,55 @@
+import { Schema, SchemaIssue, parseWithSchema } from "../schemas"
+import { SchemaValidationError } from "../errors"
+import { ChatMessage } from "../types"
+
+export const DEFAULT_MAX_VALIDATION_ATTEMPTS = 3
+
+export type CompletionFn = (messages: ChatMessage[]) => Promise<string | null>
+
+export interface StructuredRequestOptions {
+  operation: string
+  maxAttempts?: number
+}
+
+// Demande une réponse JSON et la valide ; en cas d'échec, renvoie les erreurs
+// au modèle pour qu'il corrige sa réponse
+export async function requestStructured<T>(
+  complete: CompletionFn,
+  messages: ChatMessage[],
+  schema: Schema<T>,
+  options: StructuredRequestOptions
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_VALIDATION_ATTEMPTS
+  const conversation = [...messages]
+  let issues: SchemaIssue[] = []
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const content = (await complete(conversation)) || ""
+    let parsed: unknown
+
+    try {
+      parsed = JSON.parse(content)
+      const result = parseWithSchema(schema, parsed)
+      if (!result.issues.length && result.value !== undefined) {
+        return result.value
+      }
+      issues = result.issues
+    } catch (error) {
+      issues = [{ path: "$", message: `invalid JSON (${(error as Error).message})` }]
+    }
+
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: formatRepairPrompt(issues) }
+    )
+  }
+
+  throw new SchemaValidationError(options.operation, issues, maxAttempts)
+}
+
+function formatRepairPrompt(issues: SchemaIssue[]): string {
+  return `Your previous response did not match the expected JSON structure:
+${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n")}
+
+Return the complete corrected JSON object only, using the exact structure requested.`
+}
@@ -0,0 +1,128 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto"
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { StoredSpotifyTokens, TokenStore } from "../types"
+import { NotConfiguredError, ValidationError } from "../errors"
+
+export class MemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, StoredSpotifyTokens>()
+
+  async get(sessionId: string): Promise<StoredSpotifyTokens | undefined> {
+    return this.tokens.get(sessionId)
+  }
+
+  async set(sessionId: string, tokens: StoredSpotifyTokens): Promise<void> {
+    this.tokens.set(sessionId, tokens)
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.tokens.delete(sessionId)
+  }
+}
+
+export interface FileTokenStoreOptions {
+  encryptionKey: string // phrase secrète, dérivée avec scrypt
+}
+
+const TOKEN_FILE_VERSION = 1
+
+interface EncryptedTokenFile {
+  version: number
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+// Fichier chiffré en AES-256-GCM contenant les tokens de toutes les sessions
+export class FileTokenStore implements TokenStore {
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private path: string,
+    private options: FileTokenStoreOptions
+  ) {
+    if (!options.encryptionKey) {
+      throw new NotConfiguredError("FileTokenStore requires an encryption key")
+    }
+  }
+
+  async get(sessionId: string): Promise<StoredSpotifyTokens | undefined> {
+    await this.queue
+    return this.read()[sessionId]
+  }
+
+  set(sessionId: string, tokens: StoredSpotifyTokens): Promise<void> {
+    return this.update((sessions) => {
+      sessions[sessionId] = tokens
+    })
+  }
+
+  delete(sessionId: string): Promise<void> {
+    return this.update((sessions) => {
+      delete sessions[sessionId]
+    })
+  }
+
+  // Les écritures sont sérialisées pour ne pas perdre de session
+  private update(
+    change: (sessions: Record<string, StoredSpotifyTokens>) => void
+  ): Promise<void> {
+    const next = this.queue.then(() => {
+      const sessions = this.read()
+      change(sessions)
+      this.write(sessions)
+    })
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+
+  private read(): Record<string, StoredSpotifyTokens> {
+    if (!existsSync(this.path)) return {}
+
+    const file: EncryptedTokenFile = JSON.parse(readFileSync(this.path, "utf8"))
+    if (file.version !== TOKEN_FILE_VERSION) {
+      throw new ValidationError(`Unsupported token file version: ${file.version}`)
+    }
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        this.deriveKey(Buffer.from(file.salt, "base64")),
+        Buffer.from(file.iv, "base64")
+      )
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"))
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, "base64")),
+        decipher.final(),
+      ])
+      return JSON.parse(plain.toString("utf8"))
+    } catch {
+      throw new ValidationError(
+        "Unable to decrypt token file (wrong key or corrupted file)"
+      )
+    }
+  }
+
+  private write(sessions: Record<string, StoredSpotifyTokens>): void {
+    const salt = randomBytes(16)
+    const iv = randomBytes(12)
+    const cipher = createCipheriv("aes-256-gcm", this.deriveKey(salt), iv)
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(sessions), "utf8"),
+      cipher.final(),
+    ])
+
+    const file: EncryptedTokenFile = {
+      version: TOKEN_FILE_VERSION,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    }
+    writeFileSync(this.path, JSON.stringify(file, null, 2), { mode: 0o600 })
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return scryptSync(this.options.encryptionKey, salt, 32)
+  }
+}
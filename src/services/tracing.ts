@@ -0,0 +1,184 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { randomBytes } from "crypto"
+import { promises as fs } from "fs"
+import {
+  SpanAttributes,
+  SpanKind,
+  TraceContext,
+  TraceSpan,
+  TracingOptions,
+} from "../types"
+
+interface ActiveSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: SpanKind
+  startTime: number
+  attributes: SpanAttributes
+}
+
+export interface SpanOptions {
+  kind?: SpanKind
+  attributes?: SpanAttributes
+}
+
+export interface ManualSpan {
+  setAttributes(attributes: SpanAttributes): void
+  end(error?: unknown): void
+}
+
+// Codes OTLP : SpanKind (INTERNAL = 1, CLIENT = 3) et StatusCode (UNSET = 0, ERROR = 2)
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, client: 3 }
+
+const toNanos = (ms: number) => (BigInt(Math.trunc(ms)) * BigInt(1_000_000)).toString()
+
+const toOtlpValue = (value: string | number | boolean) => {
+  if (typeof value === "boolean") return { boolValue: value }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+  }
+  return { stringValue: value }
+}
+
+const toOtlpAttributes = (attributes: SpanAttributes) =>
+  Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }))
+
+// Contexte de trace par appel : chaque méthode publique ouvre une trace (requestId)
+// et les appels imbriqués y ajoutent des spans enfants
+export class Tracer {
+  readonly serviceName: string
+  private storage = new AsyncLocalStorage<ActiveSpan>()
+  private finished: TraceSpan[] = []
+  private maxSpans: number
+  private redact: (text: string) => string = (text) => text
+
+  constructor(
+    options: TracingOptions = {},
+    private now: () => number = Date.now
+  ) {
+    this.serviceName = options.serviceName || "playlist-genius"
+    this.maxSpans = options.maxSpans ?? 1000
+  }
+
+  async run<T>(
+    name: string,
+    fn: () => Promise<T>,
+    options: SpanOptions = {}
+  ): Promise<T> {
+    const span = this.createSpan(name, options)
+    try {
+      const result = await this.storage.run(span, fn)
+      this.finish(span)
+      return result
+    } catch (error) {
+      this.finish(span, error)
+      throw error
+    }
+  }
+
+  // Span fermé explicitement, pour un flux lu en plusieurs fois ; contrairement
+  // à run, il ne devient pas le parent des appels faits pendant sa durée
+  startSpan(name: string, options: SpanOptions = {}): ManualSpan {
+    const span = this.createSpan(name, options)
+    return {
+      setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+      end: (error) => this.finish(span, error),
+    }
+  }
+
+  // Masquage appliqué aux messages d'erreur avant leur stockage (voir LoggerService)
+  setRedaction(redact: (text: string) => string): void {
+    this.redact = redact
+  }
+
+  // Champs ajoutés à chaque ligne de log émise pendant un span
+  current(): TraceContext | undefined {
+    const span = this.storage.getStore()
+    return span && { requestId: span.traceId, span: span.name }
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    const span = this.storage.getStore()
+    if (span) Object.assign(span.attributes, attributes)
+  }
+
+  getSpans(): TraceSpan[] {
+    return [...this.finished]
+  }
+
+  // Écrit les spans terminés au format OTLP/JSON puis les retire du tampon ; en cas
+  // d'échec de l'écriture, ils restent disponibles pour un nouvel export
+  async exportTo(path: string): Promise<number> {
+    const spans = [...this.finished]
+    await fs.writeFile(path, JSON.stringify(this.toOtlp(spans), null, 2))
+    const exported = new Set(spans)
+    this.finished = this.finished.filter((span) => !exported.has(span))
+    return spans.length
+  }
+
+  toOtlp(spans: TraceSpan[] = this.finished) {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: this.serviceName },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toNanos(span.startTime),
+                endTimeUnixNano: toNanos(span.endTime),
+                attributes: toOtlpAttributes(span.attributes),
+                status: span.error ? { code: 2, message: span.error } : { code: 0 },
+              })),
+            },
+          ],
+        },
+      ],
+    }
+  }
+
+  private createSpan(name: string, options: SpanOptions): ActiveSpan {
+    const parent = this.storage.getStore()
+    return {
+      traceId: parent?.traceId || randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      parentSpanId: parent?.spanId,
+      name,
+      kind: options.kind || "internal",
+      startTime: this.now(),
+      attributes: { ...options.attributes },
+    }
+  }
+
+  private finish(span: ActiveSpan, error?: unknown): void {
+    const endTime = this.now()
+    this.finished.push({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      name: span.name,
+      kind: span.kind,
+      startTime: span.startTime,
+      endTime,
+      durationMs: endTime - span.startTime,
+      attributes: span.attributes,
+      error:
+        error === undefined
+          ? undefined
+          : this.redact((error as Error)?.message || String(error)),
+    })
+    // Les plus anciens spans sont abandonnés au-delà de maxSpans
+    if (this.finished.length > this.maxSpans) {
+      this.finished.splice(0, this.finished.length - this.maxSpans)
+    }
+  }
+}
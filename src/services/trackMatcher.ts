@@ -0,0 +1,74 @@
+import { CatalogTrack } from "../types"
+import {
+  normalizeArtistName,
+  normalizeTitle,
+  similarity,
+  splitArtists,
+} from "../utils/text"
+
+export interface MatchTarget {
+  title: string
+  artist: string
+  year?: number
+  duration?: number // en secondes
+}
+
+export interface MatchScore {
+  score: number // entre 0 et 1
+  reasons: string[]
+}
+
+// Versions qu'on ne veut pas si le titre demandé ne les mentionne pas
+const VERSION_MARKERS =
+  /\b(live|karaoke|instrumental|cover|tribute|acoustic|remix|demo|originally performed|made famous|in the style of)\b/i
+
+const VERSION_PENALTY = 0.6
+
+export function scoreTrackMatch(
+  target: MatchTarget,
+  candidate: CatalogTrack
+): MatchScore {
+  const reasons: string[] = []
+  const components: Array<{ weight: number; value: number }> = []
+
+  const titleScore = similarity(
+    normalizeTitle(target.title),
+    normalizeTitle(candidate.title)
+  )
+  components.push({ weight: 0.45, value: titleScore })
+  if (titleScore < 0.8) reasons.push(`title similarity ${titleScore.toFixed(2)}`)
+
+  const artistNames = (artist: string) =>
+    [artist, ...splitArtists(artist)].map(normalizeArtistName)
+  const candidateArtists = artistNames(candidate.artist)
+  const artistScore = Math.max(
+    ...artistNames(target.artist).flatMap((name) =>
+      candidateArtists.map((candidateName) => similarity(name, candidateName))
+    )
+  )
+  components.push({ weight: 0.35, value: artistScore })
+  if (artistScore < 0.8) reasons.push(`artist similarity ${artistScore.toFixed(2)}`)
+
+  if (target.year && candidate.year) {
+    const gap = Math.abs(target.year - candidate.year)
+    components.push({ weight: 0.1, value: Math.max(0, 1 - gap / 10) })
+    if (gap > 2) reasons.push(`year ${candidate.year} vs ${target.year}`)
+  }
+
+  if (target.duration && candidate.duration) {
+    const gap = Math.abs(target.duration - candidate.duration)
+    components.push({ weight: 0.1, value: Math.max(0, 1 - gap / 60) })
+    if (gap > 20) reasons.push(`duration ${candidate.duration}s vs ${target.duration}s`)
+  }
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0)
+  let score = components.reduce((sum, c) => sum + c.weight * c.value, 0) / totalWeight
+
+  const marker = `${candidate.title} ${candidate.album || ""}`.match(VERSION_MARKERS)
+  if (marker && !VERSION_MARKERS.test(target.title)) {
+    score *= VERSION_PENALTY
+    reasons.push(`${marker[1].toLowerCase()} version`)
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons }
+}
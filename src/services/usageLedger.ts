@@ -0,0 +1,309 @@
+import { AsyncLocalStorage } from "async_hooks"
+import {
+  LLMCompletionRequest,
+  LLMUsage,
+  ModelPricing,
+  UsageBudgets,
+  UsageLimit,
+  UsageOptions,
+  UsageReport,
+  UsageTotals,
+} from "../types"
+import { BudgetExceededError } from "../errors"
+import { ContextLogger } from "./logger"
+
+// Dollars par million de tokens ; les versions datées sont résolues par préfixe
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-opus": { input: 15, output: 75 },
+}
+
+// Approximation utilisée avant l'appel, et quand le fournisseur ne renvoie pas d'usage
+const CHARS_PER_TOKEN = 4
+
+interface UsageScope {
+  operation?: string
+  userId?: string
+  totals: UsageTotals
+  reserved: UsageTotals // estimations des appels en cours
+}
+
+// Libère l'estimation réservée par check() (une seule fois)
+export type UsageReservation = () => void
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+})
+
+const addTo = (totals: UsageTotals, entry: UsageTotals) => {
+  totals.calls += entry.calls
+  totals.promptTokens += entry.promptTokens
+  totals.completionTokens += entry.completionTokens
+  totals.costUsd += entry.costUsd
+}
+
+const subtractFrom = (totals: UsageTotals, entry: UsageTotals) => {
+  totals.calls -= entry.calls
+  totals.promptTokens -= entry.promptTokens
+  totals.completionTokens -= entry.completionTokens
+  totals.costUsd -= entry.costUsd
+}
+
+const sum = (...entries: UsageTotals[]) => {
+  const totals = emptyTotals()
+  entries.forEach((entry) => addTo(totals, entry))
+  return totals
+}
+
+const tokensOf = (totals: UsageTotals) => totals.promptTokens + totals.completionTokens
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+// Registre de consommation des appels LLM, agrégé par modèle, méthode et utilisateur
+export class UsageLedger {
+  private pricing: Record<string, ModelPricing>
+  private budgets: UsageBudgets
+  private scopes = new AsyncLocalStorage<UsageScope>()
+  private total = emptyTotals()
+  private byModel = new Map<string, UsageTotals>()
+  private byOperation = new Map<string, UsageTotals>()
+  private byUser = new Map<string, UsageTotals>()
+  private unpriced = new Set<string>()
+  private day = ""
+  private today = emptyTotals()
+  private todayByUser = new Map<string, UsageTotals>()
+  private reservedToday = emptyTotals()
+  private reservedTodayByUser = new Map<string, UsageTotals>()
+
+  constructor(
+    options: UsageOptions = {},
+    private logger?: ContextLogger,
+    private now: () => number = Date.now
+  ) {
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...options.pricing }
+    this.budgets = options.budgets || {}
+  }
+
+  // Les appels imbriqués (ex. findTrendingInGenre -> analyzeMusicTrend) restent
+  // imputés à la méthode la plus externe
+  run<T>(
+    { operation, userId }: { operation: string; userId?: string },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const current = this.scopes.getStore()
+    if (current?.operation) return fn()
+    return this.scopes.run(
+      {
+        operation,
+        userId: userId ?? current?.userId,
+        totals: emptyTotals(),
+        reserved: emptyTotals(),
+      },
+      fn
+    )
+  }
+
+  // Impute les appels faits dans fn à un utilisateur, sans ouvrir de requête
+  runAs<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return this.scopes.run({ userId, totals: emptyTotals(), reserved: emptyTotals() }, fn)
+  }
+
+  // Lève BudgetExceededError si l'appel risque de dépasser un budget, sinon réserve
+  // son estimation jusqu'à record() : les appels concurrents d'un fan-out comptent
+  // les uns pour les autres. La réservation doit être libérée, succès ou échec
+  check(request: LLMCompletionRequest): UsageReservation {
+    this.rollDay()
+    const estimate = this.estimate(request)
+    const scope = this.scopes.getStore()
+    const userId = scope?.userId
+
+    if (scope?.operation) {
+      this.assertWithin(
+        "perRequest",
+        this.budgets.perRequest,
+        sum(scope.totals, scope.reserved),
+        estimate
+      )
+    }
+    this.assertWithin(
+      "daily",
+      this.budgets.daily,
+      sum(this.today, this.reservedToday),
+      estimate
+    )
+    if (userId) {
+      this.assertWithin(
+        "perUserDaily",
+        this.budgets.perUserDaily,
+        sum(
+          this.todayByUser.get(userId) || emptyTotals(),
+          this.reservedTodayByUser.get(userId) || emptyTotals()
+        ),
+        estimate
+      )
+    }
+
+    const day = this.day
+    if (scope) addTo(scope.reserved, estimate)
+    addTo(this.reservedToday, estimate)
+    if (userId) addTo(this.entryFor(this.reservedTodayByUser, userId), estimate)
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      if (scope) subtractFrom(scope.reserved, estimate)
+      // Les réservations de la veille ont disparu avec le changement de jour
+      if (day !== this.day) return
+      subtractFrom(this.reservedToday, estimate)
+      if (userId) subtractFrom(this.entryFor(this.reservedTodayByUser, userId), estimate)
+    }
+  }
+
+  // Sans usage renvoyé par le fournisseur, les tokens sont estimés depuis les textes
+  record(
+    request: LLMCompletionRequest,
+    model: string,
+    usage?: LLMUsage,
+    content?: string | null
+  ): void {
+    this.rollDay()
+    const promptTokens =
+      usage?.promptTokens ??
+      estimateTokens(request.messages.map((m) => m.content).join(""))
+    const completionTokens = usage?.completionTokens ?? estimateTokens(content || "")
+    const entry: UsageTotals = {
+      calls: 1,
+      promptTokens,
+      completionTokens,
+      costUsd: this.costOf(model, promptTokens, completionTokens),
+    }
+
+    const scope = this.scopes.getStore()
+    const operation = scope?.operation || "direct"
+    addTo(this.total, entry)
+    addTo(this.today, entry)
+    addTo(this.entryFor(this.byModel, model), entry)
+    addTo(this.entryFor(this.byOperation, operation), entry)
+    if (scope) addTo(scope.totals, entry)
+    if (scope?.userId) {
+      addTo(this.entryFor(this.byUser, scope.userId), entry)
+      addTo(this.entryFor(this.todayByUser, scope.userId), entry)
+    }
+
+    this.logger?.debug("LLM usage recorded", {
+      model,
+      operation,
+      promptTokens,
+      completionTokens,
+      costUsd: entry.costUsd,
+    })
+  }
+
+  getReport(): UsageReport {
+    this.rollDay()
+    const copy = (map: Map<string, UsageTotals>) =>
+      Object.fromEntries([...map].map(([key, totals]) => [key, { ...totals }]))
+    return {
+      total: { ...this.total },
+      today: { ...this.today },
+      byModel: copy(this.byModel),
+      byOperation: copy(this.byOperation),
+      byUser: copy(this.byUser),
+      unpricedModels: [...this.unpriced],
+    }
+  }
+
+  reset(): void {
+    this.total = emptyTotals()
+    this.today = emptyTotals()
+    this.byModel.clear()
+    this.byOperation.clear()
+    this.byUser.clear()
+    this.todayByUser.clear()
+    this.unpriced.clear()
+  }
+
+  costOf(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = this.pricingFor(model)
+    if (!pricing) {
+      if (!this.unpriced.has(model)) {
+        this.unpriced.add(model)
+        this.logger?.warn("No pricing for model, cost counted as 0", { model })
+      }
+      return 0
+    }
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000
+  }
+
+  // Nom exact, sinon le plus long préfixe connu ("gpt-4o-mini-2024-07-18" -> "gpt-4o-mini")
+  private pricingFor(model: string): ModelPricing | undefined {
+    if (this.pricing[model]) return this.pricing[model]
+    const prefix = Object.keys(this.pricing)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0]
+    return prefix ? this.pricing[prefix] : undefined
+  }
+
+  // Prompt estimé depuis la longueur des messages, réponse bornée par maxTokens ou,
+  // à défaut, égale à la moyenne des réponses déjà enregistrées
+  private estimate(request: LLMCompletionRequest): UsageTotals {
+    const promptTokens = estimateTokens(request.messages.map((m) => m.content).join(""))
+    const completionTokens =
+      request.maxTokens ||
+      (this.total.calls ? Math.ceil(this.total.completionTokens / this.total.calls) : 0)
+    return {
+      calls: 1,
+      promptTokens,
+      completionTokens,
+      costUsd: this.costOf(request.model, promptTokens, completionTokens),
+    }
+  }
+
+  private assertWithin(
+    budget: keyof UsageBudgets,
+    limit: UsageLimit | undefined,
+    spent: UsageTotals,
+    estimate: UsageTotals
+  ): void {
+    if (!limit) return
+    if (limit.costUsd !== undefined && spent.costUsd + estimate.costUsd > limit.costUsd) {
+      throw new BudgetExceededError(budget, "costUsd", limit.costUsd, spent.costUsd)
+    }
+    if (
+      limit.tokens !== undefined &&
+      tokensOf(spent) + tokensOf(estimate) > limit.tokens
+    ) {
+      throw new BudgetExceededError(budget, "tokens", limit.tokens, tokensOf(spent))
+    }
+  }
+
+  private entryFor(map: Map<string, UsageTotals>, key: string): UsageTotals {
+    let totals = map.get(key)
+    if (!totals) {
+      totals = emptyTotals()
+      map.set(key, totals)
+    }
+    return totals
+  }
+
+  // Remet à zéro les compteurs journaliers au changement de jour UTC
+  private rollDay(): void {
+    const day = new Date(this.now()).toISOString().slice(0, 10)
+    if (day === this.day) return
+    this.day = day
+    this.today = emptyTotals()
+    this.todayByUser.clear()
+    this.reservedToday = emptyTotals()
+    this.reservedTodayByUser.clear()
+  }
+}
@@ -6,6 +6,8 @@ export interface PlaylistCriteria {
   type?: string
   similarArtists?: string[]
   duration?: number // en minutes
+  durationTolerance?: number // en minutes, écart accepté autour de duration
+  songCount?: number // ignoré si duration est défini
   excludedArtists?: string[]
   yearRange?: {
     start?: number
@@ -21,12 +23,32 @@ export interface Song {
   popularity: number
   year: number
   duration: number
+  verification?: SongVerification
+}
+
+export interface SongVerification {
+  source: string // catalogue ayant servi à la vérification
+  confidence: number // score de correspondance entre 0 et 1
+  trackId?: string
 }
 
 export interface GenerationResult {
   songs: Song[]
   explanation: string
   tags: string[]
+  totalDuration?: number // en secondes
+  rejected?: RejectedSong[]
+  verified?: boolean // chansons vérifiées dans un catalogue
+}
+
+export interface RejectionReason {
+  code: "excluded_artist" | "year_out_of_range" | "popularity_mismatch" | "unverified"
+  message: string
+}
+
+export interface RejectedSong {
+  song: Song
+  reasons: RejectionReason[]
 }
 
 export interface TrendingResult {
@@ -80,6 +102,235 @@ export interface MusicTrend {
 
 // OpenAI
 
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface AIServiceOptions {
+  models?: Partial<ModelSelection>
+  maxValidationAttempts?: number // tentatives avant SchemaValidationError
+}
+
+// LLM
+
+export interface LLMCompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  json?: boolean
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface LLMCompletionResponse {
+  content: string | null
+  model: string
+  usage?: LLMUsage
+}
+
+export interface LLMCallOptions {
+  signal?: AbortSignal // interrompt la requête HTTP en cours
+}
+
+// Fragment d'une réponse en flux
+export interface LLMStreamChunk {
+  content: string // texte reçu depuis le fragment précédent
+  model?: string
+  usage?: LLMUsage // en général sur le dernier fragment seulement
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModels?: Partial<ModelSelection>
+  complete(
+    request: LLMCompletionRequest,
+    options?: LLMCallOptions
+  ): Promise<LLMCompletionResponse>
+  // Facultatif : sans stream, la réponse complète est renvoyée en un seul fragment
+  stream?(
+    request: LLMCompletionRequest,
+    options?: LLMCallOptions
+  ): AsyncIterable<LLMStreamChunk>
+}
+
+export interface ModelSelection {
+  playlist: string // génération de playlists, appels fréquents
+  analysis: string // analyses de chansons, artistes et tendances
+}
+
+export interface FixtureRule {
+  match: string | RegExp // testé sur le dernier message utilisateur
+  response: unknown // objet sérialisé en JSON, ou chaîne brute
+}
+
+export type LLMProviderConfig =
+  | { type: "openai"; apiKey: string; baseURL?: string }
+  | { type: "openai-compatible"; baseURL: string; apiKey?: string }
+  | { type: "anthropic"; apiKey: string; baseURL?: string; maxTokens?: number }
+  | { type: "fixture"; rules: FixtureRule[] }
+
+export interface LLMOptions {
+  provider?: LLMProvider | LLMProviderConfig
+  models?: Partial<ModelSelection>
+}
+
+export interface PlaylistGeniusOptions {
+  llm?: LLMOptions
+  fixtures?: FixtureOptions
+  verification?: VerificationOptions
+  spotifyAuth?: SpotifyAuthOptions
+  cache?: CacheOptions
+  usage?: UsageOptions
+  tracing?: TracingOptions
+  logger?: Logger // remplace le logger interne (winston ou tout objet compatible)
+  errorMode?: ErrorMode // "degrade" par défaut
+  concurrency?: ConcurrencyOptions
+  timeoutMs?: number // délai maximal par défaut d'un appel de méthode publique
+}
+
+// Appels sortants simultanés, partagés par toutes les méthodes et sessions
+export interface ConcurrencyOptions {
+  llm?: number // défaut 4
+  spotify?: number // défaut 8
+}
+
+// Gestion des erreurs
+
+// fail-fast : la première erreur est levée ; degrade : les éléments en échec sont
+// ignorés et un résultat partiel (ou par défaut) est renvoyé
+export type ErrorMode = "fail-fast" | "degrade"
+
+export interface CallOptions {
+  errorMode?: ErrorMode // remplace PlaylistGeniusOptions.errorMode pour cet appel
+  // Part minimale (0 à 1) des sous-analyses qui doivent réussir, sinon
+  // InsufficientResultsError ; sans effet en mode fail-fast
+  minSuccess?: number
+  signal?: AbortSignal // annule l'appel et les requêtes LLM/Spotify qui en découlent
+  timeoutMs?: number
+}
+
+export interface StreamOptions extends CallOptions {
+  resolveTracks?: boolean // recherche chaque chanson sur Spotify (défaut : si configuré)
+}
+
+// Évènements de streamPlaylistSuggestions, dans l'ordre d'arrivée
+export type PlaylistStreamEvent =
+  | { type: "song"; index: number; song: Song }
+  | { type: "rejected"; rejection: RejectedSong }
+  | {
+      type: "track"
+      index: number
+      song: Song
+      track: SpotifyApi.TrackObjectFull | null // null : pas de correspondance fiable
+    }
+  | { type: "done"; result: GenerationResult } // toujours le dernier
+
+// Évènements produits par OpenAIService, avant la recherche sur Spotify
+export type SuggestionStreamEvent = Exclude<PlaylistStreamEvent, { type: "track" }>
+
+// Chanson d'une playlist affinée : { keep: n } reprend la n-ième chanson (à partir
+// de 1) de la version précédente, telle quelle
+export type RefinedSong = Song | { keep: number }
+
+export interface PlaylistRefinement {
+  songs: RefinedSong[] // dans le nouvel ordre
+  explanation: string
+  tags: string[]
+}
+
+export interface RefinementRequest {
+  criteria: PlaylistCriteria // critères d'origine (exclusions, années...)
+  playlist: GenerationResult // version à modifier
+  history: ChatMessage[] // demandes et réponses ayant mené à cette version
+  instruction: string // ex. "moins mainstream", "remplace la 3e chanson"
+}
+
+// Version d'une session d'affinage ; instruction absente pour la version initiale
+export interface PlaylistVersion {
+  result: GenerationResult
+  instruction?: string
+}
+
+// Sous-analyse abandonnée par une méthode qui en combine plusieurs
+export interface FanOutFailure {
+  input: string // ex. "Song 2 by Blur"
+  errorType: string // nom de la classe d'erreur
+  message: string
+  retryable: boolean
+}
+
+export interface FanOutResult<T> {
+  data: T
+  warnings: string[]
+  failures: FanOutFailure[]
+}
+
+// Consommation LLM
+
+// Prix en dollars par million de tokens
+export interface ModelPricing {
+  input: number
+  output: number
+}
+
+export interface UsageLimit {
+  costUsd?: number
+  tokens?: number // prompt + completion
+}
+
+export interface UsageBudgets {
+  perRequest?: UsageLimit // par appel d'une méthode publique de PlaylistGenius
+  daily?: UsageLimit // jour UTC, tous utilisateurs confondus
+  perUserDaily?: UsageLimit
+}
+
+export interface UsageOptions {
+  pricing?: Record<string, ModelPricing> // complète DEFAULT_MODEL_PRICING (nom exact ou préfixe)
+  budgets?: UsageBudgets
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+export interface UsageReport {
+  total: UsageTotals
+  today: UsageTotals
+  byModel: Record<string, UsageTotals>
+  byOperation: Record<string, UsageTotals>
+  byUser: Record<string, UsageTotals>
+  unpricedModels: string[] // modèles absents de la grille, comptés à 0 $
+}
+
+// Fixtures (enregistrement / rejeu)
+
+export type FixtureMode = "record" | "replay"
+export type FixtureChannel = "llm" | "spotify"
+
+export interface FixtureOptions {
+  mode: FixtureMode
+  path: string // fichier JSON des appels enregistrés
+}
+
+export interface RecordedCall {
+  channel: FixtureChannel
+  request: unknown
+  response?: unknown
+  error?: { message: string; statusCode?: number }
+}
+
+export interface PlaylistSuggestionOptions {
+  exclude?: Song[] // chansons à ne pas proposer (déjà présentes ou rejetées)
+}
+
 export interface CustomPromptOptions {
   systemPrompt?: string
   temperature?: number
@@ -87,31 +338,155 @@ export interface CustomPromptOptions {
   format?: "json" | "text"
 }
 
+// Vérification des chansons
+
+export interface CatalogTrack {
+  id: string
+  title: string
+  artist: string
+  album?: string
+  year?: number
+  duration?: number // en secondes
+}
+
+export interface CatalogSource {
+  readonly name: string
+  search(song: Song): Promise<CatalogTrack[]>
+}
+
+export interface VerificationOptions {
+  catalog: "spotify" | { file: string } | CatalogSource
+  minConfidence?: number // entre 0 et 1
+  maxRounds?: number // tentatives de remplacement des chansons non trouvées
+}
+
 // Cache Options
 export interface CacheOptions {
-  stdTTL?: number // Durée de vie en secondes
-  checkperiod?: number // Période de vérification pour le nettoyage
-  maxKeys?: number // Nombre maximum d'entrées
+  store?: CacheStoreOption
+  policies?: Record<string, CachePolicy> // complète DEFAULT_CACHE_POLICIES
+  keySchemas?: Record<string, CacheKeySchema> // complète DEFAULT_CACHE_KEY_SCHEMAS
+  stdTTL?: number // Durée de vie par défaut, en secondes
+  checkperiod?: number // Période de vérification pour le nettoyage (store mémoire)
+  maxKeys?: number // Nombre maximum d'entrées (store mémoire)
+}
+
+// Backend de stockage du cache ; les valeurs doivent être sérialisables en JSON
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void> // 0 : pas d'expiration
+  delete(keys: string[]): Promise<void>
+  keys(prefix?: string): Promise<string[]>
+  clear(): Promise<void>
+}
+
+export interface RedisCacheOptions {
+  host?: string
+  port?: number
+  password?: string
+  db?: number
+  keyPrefix?: string // isole les clés de l'application dans une base partagée
+  commandTimeoutMs?: number // délai de connexion et de réponse à chaque commande (défaut 5000)
+}
+
+export type CacheStoreOption =
+  | "memory"
+  | { file: string }
+  | { redis: RedisCacheOptions }
+  | CacheStore
+
+// Politique de cache propre à un CacheKey.type (durées en secondes)
+export interface CachePolicy {
+  ttl?: number // 0 : pas d'expiration
+  staleWhileRevalidate?: number // durée pendant laquelle une entrée expirée est servie pendant son recalcul
+  maxEntries?: number // au-delà, les entrées les plus anciennes de ce type sont évincées
+}
+
+// Normalisation des critères d'une clé de cache (noms de champs, chemins pointés pour les objets)
+export interface CacheKeySchema {
+  sets?: string[] // tableaux dont l'ordre et les doublons sont sans importance
+  caseInsensitive?: string[] // casse et espaces ignorés
+  ignored?: string[] // champs sans effet sur le résultat
+  version?: string // à changer manuellement pour invalider les entrées existantes
+}
+
+export interface CacheTypeStats {
+  hits: number
+  misses: number
+  hitRatio: number // 0 si aucune lecture
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+  keys: number
+  byType: Record<string, CacheTypeStats>
+}
+
+// Description d'une entrée, avec sa clé d'origine (non hashée)
+export interface CacheEntryInfo {
+  key: CacheKey
+  storedAt: number // timestamp (ms)
+  age: number // en ms
+  fresh: boolean
+  freshUntil?: number
 }
 
 export interface CacheKey {
   type: string
   criteria: PlaylistCriteria | Record<string, any>
+  namespace?: string // isole les entrées propres à un utilisateur
 }
 
 // Spotify Types
 export interface SpotifyCredentials {
   clientId: string
-  clientSecret: string
+  clientSecret?: string // inutile avec PKCE
   redirectUri?: string
 }
 
+export interface SpotifyAuthOptions {
+  scopes?: string[]
+  pkce?: boolean // par défaut : activé si aucun clientSecret n'est fourni
+  attemptTtlMs?: number // durée de validité d'une tentative d'autorisation
+  tokenStore?: TokenStore
+  // Appelé après chaque obtention ou rafraîchissement (refresh token éventuellement renouvelé)
+  onTokensRefreshed?: (tokens: StoredSpotifyTokens) => void | Promise<void>
+}
+
 export interface SpotifyAuthTokens {
   accessToken: string
   refreshToken: string
   expiresIn: number
 }
 
+export interface StoredSpotifyTokens extends SpotifyAuthTokens {
+  expiresAt: number // timestamp (ms) d'expiration de l'access token
+}
+
+// Stockage des tokens par session, pour les retrouver après un redémarrage
+export interface TokenStore {
+  get(sessionId: string): Promise<StoredSpotifyTokens | undefined>
+  set(sessionId: string, tokens: StoredSpotifyTokens): Promise<void>
+  delete(sessionId: string): Promise<void>
+}
+
+export interface ScoredTrack {
+  track: SpotifyApi.TrackObjectFull
+  score: number // entre 0 et 1
+  reasons: string[] // écarts relevés (version live, autre artiste...)
+}
+
+export interface TrackMatch {
+  track: SpotifyApi.TrackObjectFull | null // null si aucun candidat n'atteint minScore
+  score: number
+  alternatives: ScoredTrack[] // candidats écartés, du meilleur au moins bon
+}
+
+export interface TrackMatchOptions {
+  limit?: number // nombre de candidats récupérés
+  minScore?: number
+}
+
 export interface SpotifyTrack {
   id: string
   name: string
@@ -160,11 +535,61 @@ export interface SpotifyAudioFeatures {
   time_signature: number
 }
 
+// Traces
+
+export interface TracingOptions {
+  serviceName?: string // attribut service.name des spans exportés
+  maxSpans?: number // spans terminés conservés en attente d'export
+}
+
+export type SpanKind = "internal" | "client" // client : appel LLM ou Spotify
+export type SpanAttributes = Record<string, string | number | boolean>
+
+export interface TraceContext {
+  requestId: string // identifiant de trace, commun à tous les spans d'un appel
+  span: string
+}
+
+export interface TraceSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: SpanKind
+  startTime: number // timestamp (ms)
+  endTime: number
+  durationMs: number
+  attributes: SpanAttributes
+  error?: string
+}
+
 // Logger
 export interface LoggerConfig {
   level: LogLevel
   filename?: string
   consoleOutput?: boolean
+  redaction?: RedactionOptions
+}
+
+// Logger fourni par l'application : un logger winston convient tel quel
+export interface Logger {
+  debug(message: string, meta?: object): void
+  info(message: string, meta?: object): void
+  warn(message: string, meta?: object): void
+  error(message: string, meta?: object): void
+  http?(message: string, meta?: object): void
+}
+
+export interface RedactionRule {
+  key?: string | RegExp // nom de champ dont la valeur est masquée entièrement
+  pattern?: RegExp // portion de chaîne à masquer (drapeau g pour toutes les occurrences)
+  strategy?: "redact" | "hash" // hash : empreinte stable, pour les identifiants
+  replacement?: string // "[REDACTED]" par défaut
+}
+
+export interface RedactionOptions {
+  rules?: RedactionRule[] // ajoutées à DEFAULT_REDACTION_RULES
+  useDefaults?: boolean // false : seules les règles fournies s'appliquent
 }
 
 export enum LogLevel {
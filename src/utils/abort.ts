@@ -0,0 +1,80 @@
+import { CancelledError } from "../errors"
+
+export interface CancellationOptions {
+  signals?: (AbortSignal | undefined)[] // signal de l'appelant, de l'appel parent...
+  timeoutMs?: number
+}
+
+// Exécute fn avec un signal qui suit les signaux donnés et le délai maximal ; l'appel
+// est rejeté avec une CancelledError dès l'annulation, sans attendre la fin de fn
+export async function withCancellation<T>(
+  operation: string,
+  options: CancellationOptions,
+  fn: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const signals = (options.signals || []).filter((s): s is AbortSignal => !!s)
+  if (!signals.length && options.timeoutMs === undefined) return fn()
+
+  const controller = new AbortController()
+  const abortFrom = (signal: AbortSignal) => () =>
+    controller.abort(toCancelledError(signal.reason, operation))
+  const listeners = signals.map((signal) => {
+    const listener = abortFrom(signal)
+    if (signal.aborted) listener()
+    else signal.addEventListener("abort", listener, { once: true })
+    return { signal, listener }
+  })
+  const { timeoutMs } = options
+  const timeout = () =>
+    controller.abort(
+      new CancelledError(`${operation} timed out after ${timeoutMs} ms`, "timeout", {
+        operation,
+      })
+    )
+  const timer = timeoutMs === undefined ? undefined : setTimeout(timeout, timeoutMs)
+
+  let onAbort: (() => void) | undefined
+  try {
+    if (controller.signal.aborted) throw controller.signal.reason
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(controller.signal.reason)
+      controller.signal.addEventListener("abort", onAbort, { once: true })
+    })
+    return await Promise.race([fn(controller.signal), aborted])
+  } finally {
+    clearTimeout(timer)
+    if (onAbort) controller.signal.removeEventListener("abort", onAbort)
+    listeners.forEach(({ signal, listener }) =>
+      signal.removeEventListener("abort", listener)
+    )
+  }
+}
+
+// Raison d'annulation d'un AbortSignal (quelconque) sous forme de CancelledError
+export function toCancelledError(reason: unknown, operation?: string): CancelledError {
+  if (reason instanceof CancelledError) return reason
+  return new CancelledError(`${operation || "Operation"} was aborted`, "aborted", {
+    operation,
+    cause: reason,
+  })
+}
+
+// Attend ms millisecondes ; rejette avec une CancelledError dès l'annulation du signal
+export function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  operation?: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(toCancelledError(signal.reason, operation))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(toCancelledError(signal?.reason, operation))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
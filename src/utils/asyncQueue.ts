@@ -0,0 +1,47 @@
+// File d'évènements lue par un seul consommateur via for await ; le producteur
+// la termine avec close() ou fail(error)
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = []
+  private closed = false
+  private error: unknown
+  private failed = false
+  private notify?: () => void
+
+  push(item: T): void {
+    if (this.closed) return
+    this.items.push(item)
+    this.wake()
+  }
+
+  close(): void {
+    this.closed = true
+    this.wake()
+  }
+
+  fail(error: unknown): void {
+    if (this.closed) return
+    this.failed = true
+    this.error = error
+    this.close()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      if (this.items.length) {
+        yield this.items.shift() as T
+        continue
+      }
+      if (this.closed) {
+        if (this.failed) throw this.error
+        return
+      }
+      await new Promise<void>((resolve) => (this.notify = resolve))
+    }
+  }
+
+  private wake(): void {
+    const notify = this.notify
+    this.notify = undefined
+    notify?.()
+  }
+}
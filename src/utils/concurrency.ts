@@ -0,0 +1,95 @@
+// Exécute fn sur chaque élément avec au plus `limit` appels simultanés,
+// sans interrompre les autres en cas d'échec
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) }
+      } catch (reason) {
+        results[index] = { status: "rejected", reason }
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  )
+  return results
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// File d'attente partagée : au plus maxConcurrent tâches en cours, les suivantes
+// attendent leur tour ; une tâche annulée pendant l'attente quitte la file
+export class ConcurrencyLimiter {
+  private active = 0
+  private waiting: Array<() => void> = []
+
+  constructor(readonly maxConcurrent: number) {}
+
+  get pending(): number {
+    return this.waiting.length
+  }
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal)
+    try {
+      return await task()
+    } finally {
+      release()
+    }
+  }
+
+  // Réserve un créneau ; la fonction renvoyée le libère (une seule fois)
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    await this.wait(signal)
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.release()
+    }
+  }
+
+  private wait(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason)
+    if (this.active < this.maxConcurrent) {
+      this.active++
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", cancel)
+        resolve()
+      }
+      const cancel = () => {
+        this.waiting.splice(this.waiting.indexOf(start), 1)
+        reject(signal!.reason)
+      }
+      this.waiting.push(start)
+      signal?.addEventListener("abort", cancel, { once: true })
+    })
+  }
+
+  private release(): void {
+    const next = this.waiting.shift()
+    // Le créneau passe directement à la tâche suivante
+    if (next) next()
+    else this.active--
+  }
+}
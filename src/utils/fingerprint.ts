@@ -0,0 +1,10 @@
+import crypto from "crypto"
+
+// Empreinte courte de textes (modèle, prompts) servant à versionner les clés de cache
+export function fingerprint(...parts: string[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(parts.join("\u0000"))
+    .digest("hex")
+    .slice(0, 12)
+}
@@ -0,0 +1,101 @@
+// Extrait au fil de l'eau les éléments d'un tableau JSON (ex. "songs" dans
+// { "songs": [...], "explanation": ... }) à partir d'un texte reçu par morceaux ;
+// un tableau à la racine est aussi accepté
+export class JsonArrayItemParser {
+  private text = ""
+  private stack: string[] = []
+  private inString = false
+  private escaped = false
+  private stringStart = -1
+  private lastString = ""
+  private key = ""
+  private arrayDepth = -1 // profondeur du tableau suivi une fois ouvert
+  private itemStart = -1
+
+  constructor(private field: string) {}
+
+  // Texte complet reçu jusqu'ici
+  get content(): string {
+    return this.text
+  }
+
+  // Ajoute un morceau de texte et renvoie les éléments terminés qu'il contient
+  push(chunk: string): unknown[] {
+    const items: unknown[] = []
+    const offset = this.text.length
+    this.text += chunk
+
+    for (let i = offset; i < this.text.length; i++) {
+      const char = this.text[i]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === "\\") this.escaped = true
+        else if (char === '"') {
+          this.inString = false
+          if (this.stack.length === 1) {
+            this.lastString = this.text.slice(this.stringStart, i)
+          }
+        }
+        continue
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true
+          this.stringStart = i + 1
+          break
+        case ":":
+          if (this.stack.length === 1) this.key = this.lastString
+          break
+        case ",":
+          if (this.stack.length === 1) this.key = ""
+          break
+        case "{":
+        case "[":
+          this.open(char, i)
+          break
+        case "}":
+        case "]": {
+          const item = this.close(i)
+          if (item !== undefined) items.push(item)
+          break
+        }
+      }
+    }
+
+    return items
+  }
+
+  private open(char: string, index: number): void {
+    this.stack.push(char)
+    const depth = this.stack.length
+
+    if (this.arrayDepth < 0 && char === "[") {
+      const rootArray = depth === 1
+      const fieldArray = depth === 2 && this.stack[0] === "{" && this.key === this.field
+      if (rootArray || fieldArray) this.arrayDepth = depth
+    } else if (depth === this.arrayDepth + 1 && this.arrayDepth > 0) {
+      this.itemStart = index
+    }
+  }
+
+  private close(index: number): unknown {
+    const depth = this.stack.length
+    this.stack.pop()
+
+    if (depth === this.arrayDepth) {
+      this.arrayDepth = 0 // tableau terminé : on ne suit plus rien
+      return undefined
+    }
+    if (depth !== this.arrayDepth + 1 || this.itemStart < 0) return undefined
+
+    const source = this.text.slice(this.itemStart, index + 1)
+    this.itemStart = -1
+    try {
+      return JSON.parse(source)
+    } catch {
+      return undefined
+    }
+  }
+}
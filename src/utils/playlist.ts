@@ -0,0 +1,89 @@
+import { PlaylistCriteria, Song } from "../types"
+import { normalizeText } from "./text"
+
+export const DEFAULT_SONG_COUNT = 5
+export const AVERAGE_SONG_DURATION = 210 // en secondes
+export const DEFAULT_DURATION_TOLERANCE = 3 // en minutes
+
+export interface PlaylistLengthTarget {
+  songCount: number
+  durationSeconds?: number
+  toleranceSeconds: number
+}
+
+export interface DurationFit {
+  songs: Song[]
+  totalDuration: number
+  withinTolerance: boolean
+}
+
+export function resolveLengthTarget(criteria: PlaylistCriteria): PlaylistLengthTarget {
+  const toleranceSeconds = (criteria.durationTolerance ?? DEFAULT_DURATION_TOLERANCE) * 60
+
+  if (criteria.duration && criteria.duration > 0) {
+    const durationSeconds = criteria.duration * 60
+    return {
+      songCount: Math.max(1, Math.ceil(durationSeconds / AVERAGE_SONG_DURATION)),
+      durationSeconds,
+      toleranceSeconds,
+    }
+  }
+
+  return {
+    songCount:
+      criteria.songCount && criteria.songCount > 0
+        ? criteria.songCount
+        : DEFAULT_SONG_COUNT,
+    toleranceSeconds,
+  }
+}
+
+export function songDuration(song: Song): number {
+  return typeof song.duration === "number" && song.duration > 0
+    ? song.duration
+    : AVERAGE_SONG_DURATION
+}
+
+export function totalDuration(songs: Song[]): number {
+  return songs.reduce((sum, song) => sum + songDuration(song), 0)
+}
+
+export function songKey(song: { title: string; artist: string }): string {
+  return `${normalizeText(song.title)}|${normalizeText(song.artist)}`
+}
+
+export function dedupeSongs(songs: Song[], seen: Set<string> = new Set()): Song[] {
+  return songs.filter((song) => {
+    const key = songKey(song)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Sélectionne les chansons dans l'ordre jusqu'à atteindre la durée cible,
+// en sautant celles qui feraient dépasser la tolérance haute
+export function fitToDuration(
+  songs: Song[],
+  targetSeconds: number,
+  toleranceSeconds: number
+): DurationFit {
+  const selected: Song[] = []
+  let total = 0
+
+  for (const song of songs) {
+    if (total >= targetSeconds - toleranceSeconds) break
+
+    const duration = songDuration(song)
+    if (total + duration > targetSeconds + toleranceSeconds) continue
+
+    selected.push(song)
+    total += duration
+  }
+
+  return {
+    songs: selected,
+    totalDuration: total,
+    withinTolerance: Math.abs(total - targetSeconds) <= toleranceSeconds,
+  }
+}
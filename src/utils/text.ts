@@ -0,0 +1,66 @@
+// Minuscules, sans accents ni ponctuation, espaces normalisés
+export function normalizeText(value: string): string {
+  return (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export function normalizeArtistName(name: string): string {
+  return normalizeText(name).replace(/^the /, "")
+}
+
+// "Song (feat. X) - Remastered 2011" -> "song"
+export function normalizeTitle(title: string): string {
+  return normalizeText(
+    (title || "")
+      .replace(/\s[-–—]\s.*$/, "")
+      .replace(/\s*[([][^)\]]*[)\]]/g, "")
+      .replace(/\s+(feat\.?|ft\.?|featuring)\s.*$/i, "")
+  )
+}
+
+// Sépare les artistes crédités ("A feat. B", "A & B", "A, B") ; "x" et "with" font
+// partie de vrais noms ("Malcolm X", "Dance with the Dead") et ne sont pas des séparateurs
+export function splitArtists(artist: string): string[] {
+  return (artist || "")
+    .split(/\s*(?:,|&|\b(?:feat|ft)\b\.?|\bfeaturing\b)\s*/i)
+    .map((name) => name.trim())
+    .filter(Boolean)
+}
+
+// Distance d'édition comptant les transpositions de lettres voisines comme une seule erreur
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)]
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Similarité entre 0 et 1 basée sur la distance d'édition
+export function similarity(a: string, b: string): number {
+  const left = normalizeText(a)
+  const right = normalizeText(b)
+  if (!left && !right) return 1
+  const longest = Math.max(left.length, right.length)
+  return 1 - editDistance(left, right) / longest
+}